@@ -0,0 +1,130 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { render, screen, waitFor, act } from "@testing-library/react";
+import { useInvitationAcceptance, parseInvitationIdFromUrl } from "../src";
+import type { InvitationAcceptanceResult, UseInvitationAcceptanceOptions } from "../src";
+import { MockVortexProvider, createFakeVortexBackend, createInvitationGroup } from "../src/testing";
+import type { FakeVortexBackend } from "../src/testing";
+import React from "react";
+
+const target = { type: "email" as const, value: "new@example.com" };
+
+function renderAcceptance(backend: FakeVortexBackend, options: UseInvitationAcceptanceOptions) {
+  const result: { current: InvitationAcceptanceResult | null } = { current: null };
+  function Probe() {
+    result.current = useInvitationAcceptance(options);
+    return <div data-testid="status">{result.current.status}</div>;
+  }
+  render(
+    <MockVortexProvider backend={backend} user={{ userId: "user-1" }}>
+      <Probe />
+    </MockVortexProvider>
+  );
+  return result;
+}
+
+describe("parseInvitationIdFromUrl", () => {
+  it("reads query parameters first, then the path pattern", () => {
+    expect(parseInvitationIdFromUrl("https://app.test/join?invite=inv-1")).toBe("inv-1");
+    expect(parseInvitationIdFromUrl("https://app.test/join?code=inv-2", { queryParam: "code" })).toBe("inv-2");
+    expect(parseInvitationIdFromUrl("https://app.test/base/invite/inv%203/", { pathPattern: "/invite/:invitationId" })).toBe("inv 3");
+    expect(parseInvitationIdFromUrl("https://app.test/t/acme/i/inv-4", { pathPattern: /\/i\/([^/]+)$/ })).toBe("inv-4");
+    expect(parseInvitationIdFromUrl("https://app.test/join")).toBeNull();
+  });
+});
+
+describe("useInvitationAcceptance", () => {
+  it("loads the invitation from the URL, accepts it and redirects", async () => {
+    const backend = createFakeVortexBackend();
+    backend.addInvitation({ id: "inv-1", groups: [createInvitationGroup({ type: "team", groupId: "t-1" })] });
+    const onAccepted = jest.fn();
+    const navigate = jest.fn();
+
+    const result = renderAcceptance(backend, {
+      url: "https://app.test/invite/inv-1",
+      pathPattern: "/invite/:invitationId",
+      onAccepted,
+      redirectTo: (accepted) => `/teams/${accepted.groups[0].groupId}`,
+      navigate,
+    });
+
+    await waitFor(() => expect(screen.getByTestId("status").textContent).toBe("ready"));
+    expect(result.current!.invitationId).toBe("inv-1");
+    expect(result.current!.groups.map((group) => group.groupId)).toEqual(["t-1"]);
+
+    await act(async () => {
+      await result.current!.accept(target);
+    });
+
+    expect(result.current!.status).toBe("accepted");
+    expect(result.current!.acceptedInvitation?.status).toBe("accepted");
+    expect(onAccepted).toHaveBeenCalledTimes(1);
+    expect(navigate).toHaveBeenCalledWith("/teams/t-1");
+  });
+
+  it("sends one accept request for calls in the same tick", async () => {
+    const backend = createFakeVortexBackend();
+    backend.addInvitation({ id: "inv-1" });
+    const result = renderAcceptance(backend, { invitationId: "inv-1", navigate: () => undefined });
+    await waitFor(() => expect(screen.getByTestId("status").textContent).toBe("ready"));
+
+    let second: Promise<unknown> = Promise.resolve();
+    await act(async () => {
+      const first = result.current!.accept(target);
+      second = result.current!.accept(target);
+      await first;
+    });
+
+    expect(await second).toBeNull();
+    expect(result.current!.status).toBe("accepted");
+    expect(backend.requests.filter((request) => request.route === "acceptInvitations")).toHaveLength(1);
+  });
+
+  it("reports revoked and already used invitations", async () => {
+    const backend = createFakeVortexBackend();
+    backend.addInvitation({ id: "inv-revoked", deactivated: true });
+    backend.addInvitation({ id: "inv-used", invitationType: "single_use", status: "accepted" });
+
+    const revoked = renderAcceptance(backend, { invitationId: "inv-revoked" });
+    await waitFor(() => expect(revoked.current!.status).toBe("revoked"));
+
+    const used = renderAcceptance(backend, { invitationId: "inv-used" });
+    await waitFor(() => expect(used.current!.status).toBe("expired"));
+    await act(async () => {
+      expect(await used.current!.accept(target)).toBeNull();
+    });
+    expect(backend.requests.filter((request) => request.route === "acceptInvitations")).toHaveLength(0);
+  });
+
+  it("moves to expired when the invitation is used before accepting", async () => {
+    const backend = createFakeVortexBackend();
+    backend.addInvitation({ id: "inv-1", invitationType: "single_use" });
+    const navigate = jest.fn();
+
+    const result = renderAcceptance(backend, { invitationId: "inv-1", redirectTo: "/home", navigate });
+    await waitFor(() => expect(result.current!.status).toBe("ready"));
+
+    backend.addInvitation({ id: "inv-1", invitationType: "single_use", status: "accepted" });
+    await act(async () => {
+      await result.current!.accept(target);
+    });
+
+    expect(result.current!.status).toBe("expired");
+    expect(result.current!.error?.status).toBe(409);
+    expect(navigate).not.toHaveBeenCalled();
+  });
+
+  it("errors without an invitation id and recovers on reload", async () => {
+    const missing = renderAcceptance(createFakeVortexBackend(), { url: "https://app.test/join" });
+    await waitFor(() => expect(missing.current!.status).toBe("error"));
+    expect(missing.current!.error?.code).toBe("INVITATION_ID_MISSING");
+
+    const backend = createFakeVortexBackend();
+    backend.failNext("getInvitation", { status: 500 });
+    const result = renderAcceptance(backend, { url: "https://app.test/join?invitationId=inv-1" });
+    backend.addInvitation({ id: "inv-1" });
+
+    await waitFor(() => expect(result.current!.status).toBe("error"));
+    act(() => result.current!.reload());
+    await waitFor(() => expect(result.current!.status).toBe("ready"));
+  });
+});
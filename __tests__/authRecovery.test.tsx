@@ -0,0 +1,98 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { act } from "@testing-library/react";
+import { VortexAuthError } from "../src";
+import { createFakeVortexBackend } from "../src/testing";
+import { renderClient } from "./helpers";
+
+const routesOf = (backend: ReturnType<typeof createFakeVortexBackend>) => backend.requests.map((request) => request.route);
+
+describe("Automatic 401 handling", () => {
+  it("refreshes the JWT once and replays every request rejected meanwhile", async () => {
+    const backend = createFakeVortexBackend({ requireAuth: true });
+    const [first, second] = [1, 2].map(() => backend.addInvitation().id);
+    const onError = jest.fn();
+    const client = renderClient(backend, { onError });
+    const expired = client.getState().tokens[client.getState().activeKey!].jwt;
+    backend.expireTokens();
+    backend.requests.length = 0;
+
+    let results: unknown[] = [];
+    await act(async () => {
+      results = await Promise.all([client.getInvitation(first), client.reinvite(second)]);
+    });
+    const [a, b] = results;
+
+    expect(a).toMatchObject({ id: first });
+    expect(b).toMatchObject({ id: second, status: "queued" });
+    expect(routesOf(backend).filter((route) => route === "jwt")).toHaveLength(1);
+    expect(routesOf(backend)).toHaveLength(5);
+    expect(client.getActiveToken()?.jwt).not.toBe(expired);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("reports a single auth error when the refresh fails", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const backend = createFakeVortexBackend({ requireAuth: true });
+      const ids = [1, 2, 3].map(() => backend.addInvitation().id);
+      const onError = jest.fn();
+      const client = renderClient(backend, { onError });
+      backend.expireTokens();
+      backend.setUser(null);
+
+      let errors: unknown[] = [];
+      await act(async () => {
+        errors = await Promise.all(ids.map((id) => client.getInvitation(id).catch((e) => e)));
+      });
+
+      errors.forEach((error) => expect(error).toMatchObject({ status: 401 }));
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(VortexAuthError);
+      expect(routesOf(backend).filter((route) => route === "jwt")).toHaveLength(1);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it("can be turned off", async () => {
+    const backend = createFakeVortexBackend({ requireAuth: true });
+    const { id } = backend.addInvitation();
+    const client = renderClient(backend, { refreshOnUnauthorized: false });
+    backend.expireTokens();
+    backend.requests.length = 0;
+
+    await expect(client.getInvitation(id)).rejects.toMatchObject({ status: 401 });
+    expect(routesOf(backend)).toEqual(["getInvitation"]);
+  });
+});
+
+describe("GET retry policy", () => {
+  it("retries retryable GET failures with backoff, but never mutations", async () => {
+    jest.useFakeTimers();
+    try {
+      const backend = createFakeVortexBackend();
+      const { id } = backend.addInvitation();
+      const client = renderClient(backend, { retry: { maxRetries: 2, initialDelayMs: 100 } });
+
+      backend.failNext("getInvitation", { status: 503, times: 2 });
+      const pending = client.getInvitation(id);
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(100);
+      });
+      expect(backend.requests.filter((request) => request.route === "getInvitation")).toHaveLength(2);
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(200);
+      });
+      await expect(pending).resolves.toMatchObject({ id });
+
+      backend.failNext("getInvitation", { status: 404 });
+      await expect(client.getInvitation("missing")).rejects.toMatchObject({ status: 404 });
+
+      backend.failNext("reinvite", { status: 503 });
+      await expect(client.reinvite(id)).rejects.toMatchObject({ status: 503 });
+      expect(backend.requests.filter((request) => request.route === "reinvite")).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
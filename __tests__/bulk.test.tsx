@@ -0,0 +1,138 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { render, act } from "@testing-library/react";
+import { useInvitations, VortexAbortError } from "../src";
+import type { BulkInvitationResult, VortexClient } from "../src";
+import { MockVortexProvider, createFakeVortexBackend } from "../src/testing";
+import { renderClient } from "./helpers";
+import React from "react";
+
+describe("Bulk invitation operations", () => {
+  it("returns a result per id instead of stopping at the first failure", async () => {
+    const backend = createFakeVortexBackend();
+    const ids = ["inv-1", "inv-2", "inv-3"].map((id) => backend.addInvitation({ id }).id);
+    const client = renderClient(backend);
+    backend.failNext("reinvite", { status: 500 });
+
+    const progress = jest.fn();
+    const results = await client.bulkReinvite([...ids, "missing"], { onProgress: progress });
+
+    expect(results.map((result) => [result.invitationId, result.status])).toEqual([
+      ["inv-1", "rejected"],
+      ["inv-2", "fulfilled"],
+      ["inv-3", "fulfilled"],
+      ["missing", "rejected"],
+    ]);
+    expect(results[1]).toMatchObject({ value: { status: "queued" } });
+    expect(results[3]).toMatchObject({ error: { status: 404 } });
+    expect(progress).toHaveBeenLastCalledWith({ total: 4, completed: 4, succeeded: 2, failed: 2 }, results[3]);
+  });
+
+  it("limits concurrency and cancels ids not started yet", async () => {
+    jest.useFakeTimers();
+    try {
+      const backend = createFakeVortexBackend({ latencyMs: 100 });
+      const ids = [1, 2, 3, 4, 5].map(() => backend.addInvitation().id);
+      const client = renderClient(backend);
+      const controller = new AbortController();
+
+      const pending = client.bulkRevoke(ids, { concurrency: 2, signal: controller.signal });
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(0);
+      });
+      expect(backend.requests).toHaveLength(2);
+
+      controller.abort();
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(100);
+      });
+      const results = await pending;
+
+      expect(backend.requests).toHaveLength(2);
+      expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(2);
+      const cancelled = results.filter((result) => result.status === "rejected");
+      expect(cancelled).toHaveLength(3);
+      expect(cancelled[0].status === "rejected" && cancelled[0].error).toBeInstanceOf(VortexAbortError);
+      expect(backend.listInvitations().filter((invitation) => invitation.deactivated)).toHaveLength(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("tracks bulk progress under a single loading key in useInvitations", async () => {
+    const backend = createFakeVortexBackend();
+    const ids = [1, 2].map(() => backend.addInvitation().id);
+    let invitations: ReturnType<typeof useInvitations> | null = null;
+    function Capture() {
+      invitations = useInvitations();
+      return null;
+    }
+    render(
+      <MockVortexProvider backend={backend}>
+        <Capture />
+      </MockVortexProvider>
+    );
+
+    await act(async () => {
+      await invitations!.bulkRevoke(ids);
+    });
+
+    expect(invitations!.progress.bulkRevoke).toEqual({ total: 2, completed: 2, succeeded: 2, failed: 0 });
+    expect(invitations!.isLoading("bulkRevoke")).toBe(false);
+    expect(Object.keys(invitations!.loading)).toEqual(["bulkRevoke"]);
+  });
+
+  it("rolls back only the rejected ids of an optimistic bulk operation", async () => {
+    const backend = createFakeVortexBackend();
+    const [a, b] = ["a", "b"].map((id) => backend.addInvitation({ id }));
+    let invitations: ReturnType<typeof useInvitations> | null = null;
+    let client: VortexClient | null = null;
+    function Capture() {
+      invitations = useInvitations({ optimistic: true });
+      return null;
+    }
+    render(
+      <MockVortexProvider backend={backend} onClient={(c) => (client = c)}>
+        <Capture />
+      </MockVortexProvider>
+    );
+    client!.cache.setData({ kind: "invitation", invitationId: "a" }, a);
+    client!.cache.setData({ kind: "invitation", invitationId: "b" }, b);
+    backend.failNext("revokeInvitation", { status: 500 });
+
+    await act(async () => {
+      await invitations!.bulkRevoke(["a", "b"], { concurrency: 1 });
+    });
+
+    const state = (id: string) => client!.cache.getState<{ deactivated: boolean }>({ kind: "invitation", invitationId: id });
+    expect(state("a").data?.deactivated).toBe(false);
+    expect(state("b").data?.deactivated).toBe(true);
+    expect(state("b").isInvalidated).toBe(true);
+    expect(backend.getInvitation("b")?.deactivated).toBe(true);
+  });
+
+  it("runs overlapping bulk calls side by side", async () => {
+    const backend = createFakeVortexBackend({ latencyMs: 5 });
+    ["a", "b", "c", "d"].forEach((id) => backend.addInvitation({ id }));
+    let invitations: ReturnType<typeof useInvitations> | null = null;
+    function Capture() {
+      invitations = useInvitations({ optimistic: true });
+      return null;
+    }
+    render(
+      <MockVortexProvider backend={backend}>
+        <Capture />
+      </MockVortexProvider>
+    );
+
+    let results: BulkInvitationResult<void>[][] = [];
+    await act(async () => {
+      const first = invitations!.bulkRevoke(["a", "b", "c"], { concurrency: 1 });
+      const second = invitations!.bulkRevoke(["d"]);
+      results = await Promise.all([first, second]);
+    });
+
+    expect(results.flat().map((result) => result.status)).toEqual(["fulfilled", "fulfilled", "fulfilled", "fulfilled"]);
+    expect(backend.listInvitations().filter((invitation) => invitation.deactivated)).toHaveLength(4);
+    expect(invitations!.isLoading("bulkRevoke")).toBe(false);
+  });
+});
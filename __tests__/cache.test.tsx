@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import { render, screen, waitFor, act } from "@testing-library/react";
+import { InvitationQueryCache, VortexProvider, useGroupInvitations, useInvitations, useVortex } from "../src";
+import type { VortexClient } from "../src";
+import { MockVortexProvider, createFakeVortexBackend } from "../src/testing";
+import { jsonResponse } from "./helpers";
+import React from "react";
+
+const mockFetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+global.fetch = mockFetch;
+
+const invitation = (id: string) => ({
+  id,
+  status: "delivered",
+  deactivated: false,
+  groups: [{ type: "workspace", groupId: "ws-1" }],
+});
+
+function GroupList({ label }: { label: string }) {
+  const { data, isLoading } = useGroupInvitations("workspace", "ws-1");
+  if (isLoading) return <div>{label}: loading</div>;
+  return <div>{label}: {data?.map((i) => i.id).join(",")}</div>;
+}
+
+describe("Invitation query cache", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("deduplicates identical group queries across components", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ invitations: [invitation("inv-1")] }));
+
+    render(
+      <VortexProvider config={{ refreshJwtInterval: 0 }}>
+        <GroupList label="a" />
+        <GroupList label="b" />
+      </VortexProvider>
+    );
+
+    await screen.findByText("a: inv-1");
+    expect(screen.getByText("b: inv-1")).toBeTruthy();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("refetches observed group queries after a revoke", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ invitations: [invitation("inv-1"), invitation("inv-2")] }));
+
+    let vortex: ReturnType<typeof useVortex> | null = null;
+    function Capture() {
+      vortex = useVortex();
+      return null;
+    }
+
+    render(
+      <VortexProvider config={{ refreshJwtInterval: 0 }}>
+        <GroupList label="list" />
+        <Capture />
+      </VortexProvider>
+    );
+    await screen.findByText("list: inv-1,inv-2");
+
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse({ invitations: [invitation("inv-2")] }));
+
+    await act(async () => {
+      await vortex!.revokeInvitation("inv-1");
+    });
+
+    await waitFor(() => expect(screen.getByText("list: inv-2")).toBeTruthy());
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("collects entries fetched without a subscriber", async () => {
+    const cache = new InvitationQueryCache({ gcTimeMs: 10, queryFn: async () => invitation("inv-1") });
+
+    await cache.fetch({ kind: "invitation", invitationId: "inv-1" });
+    expect(cache.dehydrate().queries).toHaveLength(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(cache.dehydrate().queries).toHaveLength(0);
+  });
+
+  it("refetches a query invalidated while its request is in flight", async () => {
+    const key = { kind: "group" as const, groupType: "workspace", groupId: "ws-1" };
+    const responses = [[invitation("inv-1")], [{ ...invitation("inv-1"), deactivated: true }]];
+    const signals: AbortSignal[] = [];
+    const cache = new InvitationQueryCache({
+      queryFn: (_key, { signal }) => {
+        signals.push(signal!);
+        const data = responses[signals.length - 1];
+        return new Promise((resolve) => setTimeout(() => resolve(data), 5));
+      },
+    });
+    const unsubscribe = cache.subscribe(key, () => undefined);
+
+    const pending = cache.fetch(key);
+    cache.invalidateGroup("workspace", "ws-1");
+
+    expect(await pending).toEqual(responses[1]);
+    expect(signals).toHaveLength(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(cache.getState(key).data).toEqual(responses[1]);
+    unsubscribe();
+  });
+});
+
+describe("Optimistic mutations", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("shows a revoke immediately and rolls back when the server rejects it", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ invitations: [invitation("inv-1")] }));
+
+    let invitations: ReturnType<typeof useInvitations> | null = null;
+    function Row() {
+      const { data } = useGroupInvitations("workspace", "ws-1");
+      invitations = useInvitations({ optimistic: true });
+      const item = data?.[0];
+      return <div>{item ? `${item.id}:${item.deactivated ? "revoked" : "active"}` : "empty"}</div>;
+    }
+
+    render(
+      <VortexProvider config={{ refreshJwtInterval: 0 }}>
+        <Row />
+      </VortexProvider>
+    );
+    await screen.findByText("inv-1:active");
+
+    let rejectRevoke: (response: Response) => void = () => {};
+    mockFetch.mockReturnValueOnce(new Promise<Response>((resolve) => (rejectRevoke = resolve)));
+
+    let pending: Promise<void> | undefined;
+    act(() => {
+      pending = invitations!.revokeInvitation("inv-1").catch(() => {});
+    });
+    await screen.findByText("inv-1:revoked");
+
+    await act(async () => {
+      rejectRevoke(jsonResponse({ error: "Conflict" }, 409));
+      await pending;
+    });
+
+    expect(screen.getByText("inv-1:active")).toBeTruthy();
+    expect(invitations!.getError("revoke-inv-1")).not.toBeNull();
+  });
+
+  it("rolls a superseding call back to the state from before the first optimistic update", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ invitations: [invitation("inv-1")] }));
+
+    let invitations: ReturnType<typeof useInvitations> | null = null;
+    function Row() {
+      const { data } = useGroupInvitations("workspace", "ws-1");
+      invitations = useInvitations({ optimistic: true });
+      const item = data?.[0];
+      return <div>{item ? `${item.id}:${item.deactivated ? "revoked" : "active"}` : "empty"}</div>;
+    }
+
+    render(
+      <VortexProvider config={{ refreshJwtInterval: 0 }}>
+        <Row />
+      </VortexProvider>
+    );
+    await screen.findByText("inv-1:active");
+
+    // The first call never answers: the second one supersedes (aborts) it
+    mockFetch.mockReturnValueOnce(new Promise<Response>(() => {}));
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: "Conflict" }, 409));
+
+    await act(async () => {
+      const first = invitations!.revokeInvitation("inv-1").catch(() => {});
+      const second = invitations!.revokeInvitation("inv-1").catch(() => {});
+      await Promise.all([first, second]);
+    });
+
+    expect(screen.getByText("inv-1:active")).toBeTruthy();
+  });
+
+  it("rolls back a failed revoke without undoing other updates to the same list", async () => {
+    const backend = createFakeVortexBackend({ latencyMs: 5 });
+    const [a, b] = ["a", "b"].map((id) => backend.addInvitation({ id }));
+    let invitations: ReturnType<typeof useInvitations> | null = null;
+    let client: VortexClient | null = null;
+    function Capture() {
+      invitations = useInvitations({ optimistic: true });
+      return null;
+    }
+    render(
+      <MockVortexProvider backend={backend} onClient={(c) => (client = c)}>
+        <Capture />
+      </MockVortexProvider>
+    );
+    const key = { kind: "group" as const, groupType: "workspace", groupId: "ws-1" };
+    client!.cache.setData(key, [a, b]);
+    backend.failNext("revokeInvitation", { status: 500 });
+
+    const list = () => client!.cache.getState<{ id: string; deactivated: boolean }[]>(key).data!.map((item) => [item.id, item.deactivated]);
+    await act(async () => {
+      const failing = invitations!.revokeInvitation("a").catch(() => {});
+      const pending = invitations!.revokeInvitation("b").catch(() => {});
+      await failing;
+      // The revoke of b is still in flight: its optimistic update survives the rollback of a
+      expect(list()).toEqual([
+        ["a", false],
+        ["b", true],
+      ]);
+      await pending;
+    });
+    expect(backend.getInvitation("b")?.deactivated).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, jest, afterEach } from "@jest/globals";
+import { render, act } from "@testing-library/react";
+import { useInvitations, VortexAbortError, VortexTimeoutError } from "../src";
+import { MockVortexProvider, createFakeVortexBackend } from "../src/testing";
+import { renderClient } from "./helpers";
+import React from "react";
+
+async function advance(ms: number) {
+  await act(async () => {
+    await jest.advanceTimersByTimeAsync(ms);
+  });
+}
+
+describe("Request cancellation and timeouts", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("rejects with a VortexTimeoutError after requestTimeoutMs, unless the call overrides it", async () => {
+    jest.useFakeTimers();
+    const backend = createFakeVortexBackend({ latencyMs: 200 });
+    const { id } = backend.addInvitation();
+    const onError = jest.fn();
+    const client = renderClient(backend, { requestTimeoutMs: 100, onError });
+
+    const timedOut = client.reinvite(id).catch((e) => e);
+    const overridden = client.getInvitation(id, { timeoutMs: 500 });
+    await advance(200);
+
+    const error = await timedOut;
+    expect(error).toBeInstanceOf(VortexTimeoutError);
+    expect(error).toMatchObject({ message: "Request timed out after 100ms", endpoint: `/invitations/${id}/reinvite` });
+    expect(onError).toHaveBeenCalledWith(error);
+    await expect(overridden).resolves.toMatchObject({ id });
+  });
+
+  it("only aborts a shared query once every caller has cancelled", async () => {
+    jest.useFakeTimers();
+    const backend = createFakeVortexBackend({ latencyMs: 100 });
+    const { id } = backend.addInvitation();
+    const onError = jest.fn();
+    const client = renderClient(backend, { onError });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const cancelled = client.getInvitation(id, { signal: first.signal }).catch((e) => e);
+    const kept = client.getInvitation(id, { signal: second.signal });
+    first.abort();
+    expect(await cancelled).toBeInstanceOf(VortexAbortError);
+
+    await advance(100);
+    await expect(kept).resolves.toMatchObject({ id });
+
+    const third = new AbortController();
+    const aborted = client.getInvitation("missing", { signal: third.signal }).catch((e) => e);
+    third.abort();
+    expect(await aborted).toBeInstanceOf(VortexAbortError);
+    await advance(100);
+    expect(client.cache.getState({ kind: "invitation", invitationId: "missing" })).toMatchObject({
+      isFetching: false,
+      error: null,
+    });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("cancels the older call with the same key and every call on unmount", async () => {
+    jest.useFakeTimers();
+    const backend = createFakeVortexBackend({ latencyMs: 100 });
+    const { id } = backend.addInvitation();
+    let invitations: ReturnType<typeof useInvitations> | null = null;
+    function Probe() {
+      invitations = useInvitations();
+      return null;
+    }
+    const consoleError = jest.spyOn(console, "error");
+    const { unmount } = render(
+      <MockVortexProvider backend={backend}>
+        <Probe />
+      </MockVortexProvider>
+    );
+
+    let older: Promise<unknown> = Promise.resolve();
+    let newer: Promise<unknown> = Promise.resolve();
+    act(() => {
+      older = invitations!.reinvite(id).catch((e) => e);
+      newer = invitations!.reinvite(id);
+    });
+    expect(await older).toBeInstanceOf(VortexAbortError);
+    expect(invitations!.isLoading(`reinvite-${id}`)).toBe(true);
+    await advance(100);
+    await expect(newer).resolves.toMatchObject({ id });
+    expect(invitations!.isLoading(`reinvite-${id}`)).toBe(false);
+    expect(invitations!.getError(`reinvite-${id}`)).toBeNull();
+
+    let pending: Promise<unknown> = Promise.resolve();
+    act(() => {
+      pending = invitations!.revokeInvitation(id).catch((e) => e);
+    });
+    unmount();
+    expect(await pending).toBeInstanceOf(VortexAbortError);
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it("runs list calls for different pages side by side", async () => {
+    const backend = createFakeVortexBackend();
+    let invitations: ReturnType<typeof useInvitations> | null = null;
+    function Probe() {
+      invitations = useInvitations();
+      return null;
+    }
+    render(
+      <MockVortexProvider backend={backend}>
+        <Probe />
+      </MockVortexProvider>
+    );
+
+    await act(async () => {
+      const pages = await Promise.all([
+        invitations!.getInvitationsByGroup("team", "t-1", { limit: 10 }),
+        invitations!.getInvitationsByGroup("team", "t-1", { limit: 10, cursor: "10" }),
+      ]);
+      expect(pages).toHaveLength(2);
+    });
+    expect(Object.keys(invitations!.loading)).toEqual(["getByGroup-team-t-1?limit=10", "getByGroup-team-t-1?cursor=10&limit=10"]);
+  });
+});
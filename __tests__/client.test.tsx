@@ -0,0 +1,81 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { render, screen, act } from "@testing-library/react";
+import { VortexClient, VortexProvider, useVortex, bearerTokenInterceptor } from "../src";
+import type { VortexFetcher } from "../src";
+import { jsonResponse, makeJwt } from "./helpers";
+import React from "react";
+
+describe("VortexClient", () => {
+  it("manages tokens and notifies subscribers without React", async () => {
+    const jwt = makeJwt({ userId: "user-1", exp: Math.floor(Date.now() / 1000) + 3600 });
+    const fetcher = jest.fn<VortexFetcher>().mockResolvedValue(jsonResponse({ jwt }));
+    const client = new VortexClient({ fetcher });
+    const listener = jest.fn();
+    client.subscribe(listener);
+
+    client.start();
+    await client.refreshJwt();
+
+    expect(listener).toHaveBeenCalled();
+    expect(client.getActiveToken()?.jwt).toBe(jwt);
+    expect(client.getActiveToken()?.user?.userId).toBe("user-1");
+
+    client.clearAuth();
+    expect(client.getActiveToken()).toBeUndefined();
+    client.stop();
+  });
+
+  it("backs a provider and sends invitation calls with the client's token", async () => {
+    const jwt = makeJwt({ userId: "user-1" });
+    const fetcher = jest.fn<VortexFetcher>().mockResolvedValue(jsonResponse({ invitations: [] }));
+    const client = new VortexClient(
+      { fetcher, refreshJwtInterval: 0, interceptors: [bearerTokenInterceptor()] },
+      { initialJwt: jwt }
+    );
+
+    function UserId() {
+      const { user } = useVortex();
+      return <span data-testid="user">{user?.userId ?? "none"}</span>;
+    }
+
+    render(
+      <VortexProvider client={client}>
+        <UserId />
+      </VortexProvider>
+    );
+    expect(screen.getByTestId("user").textContent).toBe("user-1");
+
+    await client.getInvitationsByGroup("team", "t-1");
+    const [, init] = fetcher.mock.calls[0];
+    expect((init.headers as Record<string, string>).Authorization).toBe(`Bearer ${jwt}`);
+
+    act(() => client.clearAuth());
+    expect(screen.getByTestId("user").textContent).toBe("none");
+  });
+
+  it("applies a new provider config after render, then re-renders consumers with it", () => {
+    const client = new VortexClient({ apiBaseUrl: "/api/a" });
+    const setConfig = jest.spyOn(client, "setConfig");
+    const seen: [string | undefined, number][] = [];
+    function Probe() {
+      seen.push([useVortex().config.apiBaseUrl, setConfig.mock.calls.length]);
+      return null;
+    }
+
+    const { rerender } = render(
+      <VortexProvider client={client} config={{ apiBaseUrl: "/api/a" }}>
+        <Probe />
+      </VortexProvider>
+    );
+    seen.length = 0;
+    rerender(
+      <VortexProvider client={client} config={{ apiBaseUrl: "/api/b" }}>
+        <Probe />
+      </VortexProvider>
+    );
+
+    // The render itself leaves the client untouched; the commit applies the config and re-renders
+    expect(seen).toEqual([["/api/a", 1], ["/api/b", 2]]);
+    client.stop();
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "@jest/globals";
+import { render, screen, waitFor, act, fireEvent } from "@testing-library/react";
+import { InvitationList, InvitationRow, InvitationStatus, RevokeButton } from "../src";
+import { MockVortexProvider, createFakeVortexBackend, createInvitationGroup, createInvitationResult } from "../src/testing";
+import React from "react";
+
+const team = createInvitationGroup({ type: "team", groupId: "t-1" });
+
+function addTeamInvitation(backend: ReturnType<typeof createFakeVortexBackend>, id: string, email: string) {
+  return backend.addInvitation({ id, groups: [team], target: [{ type: "email", value: email }] });
+}
+
+describe("Invitation components", () => {
+  it("renders loading, then one row per invitation", async () => {
+    const backend = createFakeVortexBackend({ latencyMs: 5 });
+    addTeamInvitation(backend, "inv-1", "ada@example.com");
+    addTeamInvitation(backend, "inv-2", "grace@example.com");
+    render(
+      <MockVortexProvider backend={backend}>
+        <InvitationList groupType="team" groupId="t-1" aria-label="Team invitations" />
+      </MockVortexProvider>
+    );
+
+    expect(screen.getByRole("status").textContent).toBe("Loading invitations…");
+    const list = await screen.findByRole("list", { name: "Team invitations" });
+    expect(list.querySelectorAll("li")).toHaveLength(2);
+    expect(screen.getByRole("button", { name: "Resend: ada@example.com" })).toBeTruthy();
+  });
+
+  it("shows the empty state and the error state with a retry", async () => {
+    const empty = createFakeVortexBackend();
+    render(
+      <MockVortexProvider backend={empty}>
+        <InvitationList groupType="team" groupId="t-1" empty={<p>Nobody invited yet</p>} />
+      </MockVortexProvider>
+    );
+    expect(await screen.findByText("Nobody invited yet")).toBeTruthy();
+
+    const failing = createFakeVortexBackend();
+    failing.failNext("getInvitationsByGroup", { status: 500, error: "Database unavailable" });
+    addTeamInvitation(failing, "inv-1", "ada@example.com");
+    render(
+      <MockVortexProvider backend={failing}>
+        <InvitationList groupType="team" groupId="t-1" />
+      </MockVortexProvider>
+    );
+    expect((await screen.findByRole("alert")).textContent).toContain("Database unavailable");
+
+    await act(async () => {
+      fireEvent.click(screen.getByText("Try again"));
+    });
+    await waitFor(() => expect(screen.getByRole("button", { name: "Revoke: ada@example.com" })).toBeTruthy());
+  });
+
+  it("asks for confirmation before revoking", async () => {
+    const backend = createFakeVortexBackend();
+    addTeamInvitation(backend, "inv-1", "ada@example.com");
+    render(
+      <MockVortexProvider backend={backend}>
+        <InvitationList groupType="team" groupId="t-1" />
+      </MockVortexProvider>
+    );
+
+    fireEvent.click(await screen.findByRole("button", { name: "Revoke: ada@example.com" }));
+    const confirm = screen.getByRole("button", { name: "Confirm revoke: ada@example.com" });
+    expect(backend.requests.some((request) => request.route === "revokeInvitation")).toBe(false);
+
+    fireEvent.keyDown(confirm, { key: "Escape" });
+    fireEvent.click(screen.getByRole("button", { name: "Revoke: ada@example.com" }));
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Confirm revoke: ada@example.com" }));
+    });
+
+    await waitFor(() => expect(document.querySelector('[data-status="revoked"]')).toBeTruthy());
+    expect(backend.getInvitation("inv-1")?.deactivated).toBe(true);
+    expect((screen.getByRole("button", { name: "Revoke: ada@example.com" }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it("reports a failed resend in the row", async () => {
+    const backend = createFakeVortexBackend();
+    addTeamInvitation(backend, "inv-1", "ada@example.com");
+    backend.failNext("reinvite", { status: 500, error: "Mail provider down" });
+    render(
+      <MockVortexProvider backend={backend}>
+        <InvitationList groupType="team" groupId="t-1" />
+      </MockVortexProvider>
+    );
+
+    const resend = await screen.findByRole("button", { name: "Resend: ada@example.com" });
+    await act(async () => {
+      fireEvent.click(resend);
+    });
+    expect((await screen.findByRole("alert")).textContent).toBe("Mail provider down");
+  });
+
+  it("hands layout over to render props", async () => {
+    const backend = createFakeVortexBackend();
+    addTeamInvitation(backend, "inv-1", "ada@example.com");
+    const invitation = createInvitationResult({ id: "inv-x", status: "accepted_elsewhere" });
+    render(
+      <MockVortexProvider backend={backend}>
+        <InvitationStatus invitation={invitation} labels={{ accepted_elsewhere: "Taken" }} />
+        <table>
+          <InvitationList groupType="team" groupId="t-1" as="tbody">
+            {(item) => (
+              <InvitationRow invitation={item} as="tr">
+                {(row) => (
+                  <>
+                    <td>{row.target?.value}</td>
+                    <td>
+                      <InvitationStatus invitation={row.invitation}>{({ label }) => <strong>{label}</strong>}</InvitationStatus>
+                    </td>
+                    <td>
+                      <RevokeButton invitation={row.invitation} confirm={false}>
+                        {({ isLoading }) => (isLoading ? "…" : "Remove")}
+                      </RevokeButton>
+                    </td>
+                  </>
+                )}
+              </InvitationRow>
+            )}
+          </InvitationList>
+        </table>
+      </MockVortexProvider>
+    );
+
+    expect(screen.getByText("Taken").getAttribute("data-status")).toBe("accepted_elsewhere");
+    expect(screen.getByRole("status").closest("td")?.parentElement?.parentElement?.tagName).toBe("TBODY");
+    const cell = await screen.findByText("ada@example.com");
+    expect(cell.closest("tr")?.getAttribute("data-status")).toBe("delivered");
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Remove" }));
+    });
+    await waitFor(() => expect(screen.getByText("Revoked").tagName).toBe("STRONG"));
+  });
+
+  it("shares one set of actions between a standalone row and its buttons", async () => {
+    const backend = createFakeVortexBackend({ latencyMs: 20 });
+    const invitation = addTeamInvitation(backend, "inv-1", "ada@example.com");
+    render(
+      <MockVortexProvider backend={backend}>
+        <ul>
+          <InvitationRow invitation={invitation} />
+        </ul>
+      </MockVortexProvider>
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Resend: ada@example.com" }));
+    expect(screen.getByRole("listitem").getAttribute("aria-busy")).toBe("true");
+    await waitFor(() => expect(screen.getByRole("listitem").getAttribute("aria-busy")).toBe("false"));
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { render, act, screen } from "@testing-library/react";
+import { VortexProvider, useVortexAuth } from "../src";
+import type { VortexFetcher } from "../src";
+import { jsonResponse, makeJwt } from "./helpers";
+import React from "react";
+
+// In-memory BroadcastChannel: delivers to every other open channel with the same name
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown) {
+    const message = JSON.parse(JSON.stringify(data));
+    FakeBroadcastChannel.channels
+      .filter((channel) => channel !== this && channel.name === this.name)
+      .forEach((channel) => channel.onmessage?.({ data: message }));
+  }
+
+  close() {
+    FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter((channel) => channel !== this);
+  }
+}
+
+type Auth = ReturnType<typeof useVortexAuth>;
+
+// Each provider plays the role of one browser tab
+function renderTabs(count: number, fetcher: VortexFetcher) {
+  const tabs: Auth[] = [];
+  function Tab({ index }: { index: number }) {
+    tabs[index] = useVortexAuth();
+    return <div>tab {index}: {tabs[index].user?.userId ?? "signed out"}</div>;
+  }
+  render(
+    <>
+      {Array.from({ length: count }, (_, index) => (
+        <VortexProvider key={index} config={{ fetcher, crossTab: true }}>
+          <Tab index={index} />
+        </VortexProvider>
+      ))}
+    </>
+  );
+  return tabs;
+}
+
+describe("Cross-tab JWT synchronization", () => {
+  let fetcher: jest.MockedFunction<VortexFetcher>;
+  const originalBroadcastChannel = (global as { BroadcastChannel?: unknown }).BroadcastChannel;
+
+  beforeEach(() => {
+    (global as { BroadcastChannel?: unknown }).BroadcastChannel = FakeBroadcastChannel;
+    fetcher = jest.fn<VortexFetcher>(async () =>
+      jsonResponse({ jwt: makeJwt({ userId: "u-1", exp: Math.floor(Date.now() / 1000) + 600 }) })
+    );
+  });
+
+  afterEach(() => {
+    (global as { BroadcastChannel?: unknown }).BroadcastChannel = originalBroadcastChannel;
+    FakeBroadcastChannel.channels = [];
+    jest.useRealTimers();
+  });
+
+  it("shares a refreshed token and user with the other tabs", async () => {
+    const tabs = renderTabs(3, fetcher);
+
+    await act(() => tabs[0].refreshJwt());
+
+    expect(screen.getByText("tab 1: u-1")).toBeTruthy();
+    expect(screen.getByText("tab 2: u-1")).toBeTruthy();
+    expect(tabs[2].jwt).toBe(tabs[0].jwt);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("propagates clearAuth to every tab", async () => {
+    const tabs = renderTabs(2, fetcher);
+    await act(() => tabs[0].refreshJwt());
+
+    act(() => tabs[1].clearAuth());
+
+    expect(screen.getByText("tab 0: signed out")).toBeTruthy();
+    expect(screen.getByText("tab 1: signed out")).toBeTruthy();
+  });
+
+  it("lets only the elected tab run the scheduled refresh", async () => {
+    jest.useFakeTimers();
+    const tabs = renderTabs(3, fetcher);
+    await act(() => tabs[1].refreshJwt());
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    // Past exp minus skew: every tab's timer fires, but only the leader fetches
+    await act(async () => {
+      jest.advanceTimersByTime(9 * 60 * 1000 + 1000);
+    });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    // Followers received the new token, so their deferred fallback never fires
+    await act(async () => {
+      jest.advanceTimersByTime(15 * 1000);
+    });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to storage events without BroadcastChannel", async () => {
+    delete (global as { BroadcastChannel?: unknown }).BroadcastChannel;
+    const tabs = renderTabs(1, fetcher);
+    await act(() => tabs[0].refreshJwt());
+
+    // Another tab writes a logout message to localStorage
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "vortex-auth:message",
+          newValue: JSON.stringify({ message: { type: "clear", tabId: "other-tab" } }),
+        })
+      );
+    });
+
+    expect(screen.getByText("tab 0: signed out")).toBeTruthy();
+  });
+});
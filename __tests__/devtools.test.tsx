@@ -0,0 +1,98 @@
+import { describe, it, expect } from "@jest/globals";
+import { render, screen, waitFor, act, fireEvent } from "@testing-library/react";
+import { useGroupInvitations } from "../src";
+import { VortexDevtools } from "../src/devtools";
+import { VortexDevtools as ProductionVortexDevtools } from "../src/devtools.production";
+import type { VortexClient, VortexRequestLogEntry } from "../src";
+import { VortexDevtoolsPanel } from "../src/components/VortexDevtoolsPanel";
+import { MockVortexProvider, createFakeVortexBackend } from "../src/testing";
+import React from "react";
+
+function TeamInvitations() {
+  useGroupInvitations("team", "t-1");
+  return null;
+}
+
+describe("VortexDevtools", () => {
+  it("renders nothing outside development", () => {
+    const { container } = render(
+      <MockVortexProvider user={{ userId: "user-1" }}>
+        <VortexDevtools initialIsOpen />
+      </MockVortexProvider>
+    );
+    expect(container.innerHTML).toBe("");
+  });
+
+  it("ships a production entry point that renders nothing", () => {
+    const { container } = render(
+      <MockVortexProvider user={{ userId: "user-1" }}>
+        <ProductionVortexDevtools initialIsOpen />
+      </MockVortexProvider>
+    );
+    expect(container.innerHTML).toBe("");
+  });
+
+  it("shows the token, logs requests and replays them", async () => {
+    const backend = createFakeVortexBackend();
+    backend.failNext("getInvitationsByGroup", { status: 500 });
+    render(
+      <MockVortexProvider backend={backend} user={{ userId: "user-1", userEmail: "ada@example.com" }}>
+        <VortexDevtoolsPanel initialIsOpen />
+        <TeamInvitations />
+      </MockVortexProvider>
+    );
+
+    expect(screen.getByLabelText("Claims").textContent).toContain('"userId": "user-1"');
+    expect(screen.getByLabelText("User").textContent).toContain("ada@example.com");
+    expect(screen.getByTestId("vortex-devtools-expiry").textContent).toMatch(/^Expires in \d+m \d\ds$/);
+
+    const replay = await screen.findByLabelText("Replay GET /invitations/by-group/team/t-1");
+    expect(screen.getByText("500")).toBeTruthy();
+
+    await act(async () => {
+      fireEvent.click(replay);
+    });
+    await waitFor(() => expect(screen.getByText("200")).toBeTruthy());
+    expect(backend.requests.filter((request) => request.route === "getInvitationsByGroup")).toHaveLength(2);
+
+    await act(async () => {
+      fireEvent.click(screen.getByText("Clear auth"));
+    });
+    expect(screen.getByTestId("vortex-devtools-expiry").textContent).toBe("No token");
+
+    await act(async () => {
+      fireEvent.click(screen.getByText("Force refresh"));
+    });
+    await waitFor(() => expect(screen.getByTestId("vortex-devtools-expiry").textContent).toMatch(/^Expires in/));
+    expect(backend.requests.filter((request) => request.route === "jwt")).toHaveLength(1);
+  });
+});
+
+describe("VortexClient.subscribeToRequests", () => {
+  it("reports every attempt with its status and timing", async () => {
+    const backend = createFakeVortexBackend();
+    backend.failNext("getInvitation", { status: 503 });
+    backend.addInvitation({ id: "inv-1" });
+    const entries: VortexRequestLogEntry[] = [];
+
+    let client: VortexClient | null = null;
+    render(
+      <MockVortexProvider backend={backend} config={{ retry: { maxRetries: 1, initialDelayMs: 0 } }} onClient={(c) => (client = c)}>
+        {null}
+      </MockVortexProvider>
+    );
+    const unsubscribe = client!.subscribeToRequests((entry) => entries.push(entry));
+
+    await act(async () => {
+      await client!.getInvitation("inv-1");
+    });
+    unsubscribe();
+
+    expect(entries.map((entry) => [entry.method, entry.endpoint, entry.attempt, entry.status])).toEqual([
+      ["GET", "/invitations/inv-1", 0, 503],
+      ["GET", "/invitations/inv-1", 1, 200],
+    ]);
+    expect(entries[0].error?.status).toBe(503);
+    expect(entries[1].durationMs).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, jest, afterEach } from "@jest/globals";
+import { render, waitFor } from "@testing-library/react";
+import { diagnoseVortexRoutes, bearerTokenInterceptor, VortexProvider, VortexRouteError } from "../src";
+import type { VortexApiError, VortexFetcher } from "../src";
+import { createFakeVortexBackend } from "../src/testing";
+import { jsonResponse } from "./helpers";
+import React from "react";
+
+const htmlResponse = {
+  ok: true,
+  status: 200,
+  statusText: "OK",
+  headers: null,
+  json: async () => {
+    throw new SyntaxError("Unexpected token <");
+  },
+} as unknown as Response;
+
+describe("diagnoseVortexRoutes", () => {
+  const originalEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    (process.env as Record<string, string | undefined>).NODE_ENV = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("reports every route as reachable against a complete backend", async () => {
+    const backend = createFakeVortexBackend({ requireAuth: true });
+    const reports = await diagnoseVortexRoutes({ fetcher: backend.fetcher, interceptors: [bearerTokenInterceptor()] });
+
+    expect(reports.map((report) => [report.route, report.status])).toEqual([
+      ["jwt", "reachable"],
+      ["getInvitationsByTarget", "reachable"],
+      ["acceptInvitations", "reachable"],
+      ["getInvitationsByGroup", "reachable"],
+      ["reinvite", "reachable"],
+    ]);
+    expect(reports[0].url).toBe("/api/vortex/jwt");
+    expect(backend.listInvitations()).toHaveLength(0);
+  });
+
+  it("tells missing, auth-required, CORS-blocked and wrong-envelope routes apart", async () => {
+    const backend = createFakeVortexBackend({ requireAuth: true });
+    const fetcher: VortexFetcher = async (url, init) => {
+      if (url.includes("/by-group/")) return { ...htmlResponse, ok: false, status: 404, statusText: "Not Found" } as Response;
+      if (url.includes("/reinvite")) throw new TypeError("Failed to fetch");
+      if (url.includes("/invitations?")) return htmlResponse;
+      return backend.fetcher(url, init);
+    };
+
+    // No bearerTokenInterceptor, so the token from /jwt never reaches the invitation routes
+    const reports = await diagnoseVortexRoutes({ apiBaseUrl: "/api/partners", fetcher });
+
+    expect(reports.map((report) => [report.route, report.status, report.httpStatus])).toEqual([
+      ["jwt", "reachable", 200],
+      ["getInvitationsByTarget", "wrong-envelope", 200],
+      ["acceptInvitations", "auth-required", 401],
+      ["getInvitationsByGroup", "missing", 404],
+      ["reinvite", "cors-blocked", null],
+    ]);
+    expect(reports[3].url).toBe("/api/partners/invitations/by-group/vortex-route-diagnostics/vortex-route-diagnostics");
+  });
+
+  it("treats a 404 with a JSON error body as an answer from the route handler", async () => {
+    const backend = createFakeVortexBackend();
+    const fetcher: VortexFetcher = async (url, init) =>
+      url.includes("/reinvite") ? jsonResponse({ error: "Invitation not found" }, 404) : backend.fetcher(url, init);
+
+    const reports = await diagnoseVortexRoutes({ fetcher });
+
+    expect(reports[4]).toMatchObject({ route: "reinvite", status: "reachable", httpStatus: 404 });
+  });
+
+  it("reports unhealthy routes through onError with the diagnoseRoutes option in development", async () => {
+    (process.env as Record<string, string | undefined>).NODE_ENV = "development";
+    jest.spyOn(console, "info").mockImplementation(() => undefined);
+    const backend = createFakeVortexBackend();
+    const fetcher: VortexFetcher = async (url, init) =>
+      url.includes("/accept") ? jsonResponse({ data: [] }) : backend.fetcher(url, init);
+    const onError = jest.fn<(error: VortexApiError) => void>();
+
+    render(
+      <VortexProvider config={{ fetcher, onError, diagnoseRoutes: true, refreshJwtInterval: 0 }}>
+        <div />
+      </VortexProvider>
+    );
+
+    await waitFor(() => expect(onError).toHaveBeenCalled());
+    const error = onError.mock.calls[0][0] as VortexRouteError;
+    expect(error).toBeInstanceOf(VortexRouteError);
+    expect(error.code).toBe("ROUTE_WRONG_ENVELOPE");
+    expect(error.report.route).toBe("acceptInvitations");
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,26 @@
+import { render } from "@testing-library/react";
+import type { VortexClient, VortexConfig } from "../src";
+import { MockVortexProvider } from "../src/testing";
+import type { FakeVortexBackend } from "../src/testing";
+import React from "react";
+
+// Shared fixtures of the test suites (ignored as a suite itself, see testPathIgnorePatterns)
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: "",
+    json: async () => body,
+  }) as Response;
+
+// Unsigned JWT carrying exactly the given claims (createTestJwt adds userId, iat and exp)
+export const makeJwt = (payload: Record<string, unknown>) =>
+  `header.${btoa(JSON.stringify(payload))}.signature`;
+
+// Mounts a MockVortexProvider over the backend and returns its client
+export function renderClient(backend: FakeVortexBackend, config?: VortexConfig) {
+  let client: VortexClient | null = null;
+  render(<MockVortexProvider backend={backend} config={config} onClient={(c) => (client = c)}>{null}</MockVortexProvider>);
+  return client!;
+}
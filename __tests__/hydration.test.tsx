@@ -0,0 +1,63 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { render, screen } from "@testing-library/react";
+import { VortexProvider, useGroupInvitations, useVortexAuth } from "../src";
+import { dehydrateVortexState } from "../src/server";
+import type { InvitationResult, VortexFetcher } from "../src";
+import { makeJwt } from "./helpers";
+import React from "react";
+
+function Page() {
+  const { user } = useVortexAuth();
+  const { data, isLoading } = useGroupInvitations("team", "t-1");
+  return (
+    <div>
+      {user?.userId}: {isLoading ? "loading" : data?.map((invitation) => invitation.id).join(",")}
+    </div>
+  );
+}
+
+describe("SSR hydration", () => {
+  it("renders server-provided token and prefetched invitations without fetching", () => {
+    const fetcher = jest.fn<VortexFetcher>();
+    const initialState = dehydrateVortexState({
+      groups: [{ groupType: "team", groupId: "t-1", invitations: [{ id: "inv-1" } as InvitationResult] }],
+    });
+
+    render(
+      <VortexProvider
+        config={{ fetcher }}
+        initialJwt={makeJwt({ userId: "u-1", exp: Math.floor(Date.now() / 1000) + 600 })}
+        initialState={initialState}
+      >
+        <Page />
+      </VortexProvider>
+    );
+
+    expect(screen.getByText("u-1: inv-1")).toBeTruthy();
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it("applies a new initialState to rendered queries without updating them during render", () => {
+    const consoleError = jest.spyOn(console, "error");
+    const fetcher = jest.fn<VortexFetcher>();
+    const jwt = makeJwt({ userId: "u-1", exp: Math.floor(Date.now() / 1000) + 600 });
+    const stateAt = (updatedAt: number, id: string) =>
+      dehydrateVortexState({ updatedAt, groups: [{ groupType: "team", groupId: "t-1", invitations: [{ id } as InvitationResult] }] });
+    const now = Date.now();
+
+    const { rerender } = render(
+      <VortexProvider config={{ fetcher }} initialJwt={jwt} initialState={stateAt(now, "inv-1")}>
+        <Page />
+      </VortexProvider>
+    );
+    rerender(
+      <VortexProvider config={{ fetcher }} initialJwt={jwt} initialState={stateAt(now + 1, "inv-2")}>
+        <Page />
+      </VortexProvider>
+    );
+
+    expect(screen.getByText("u-1: inv-2")).toBeTruthy();
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
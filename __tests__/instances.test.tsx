@@ -0,0 +1,70 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { render, screen, waitFor, act } from "@testing-library/react";
+import { useVortex, useVortexAuth, useInvitations, useGroupInvitations } from "../src";
+import { MockVortexProvider, createFakeVortexBackend, createInvitationGroup } from "../src/testing";
+import React from "react";
+
+function Users() {
+  const workspaces = useVortexAuth();
+  const partners = useVortexAuth({ instance: "partners" });
+  return <p data-testid="users">{`${workspaces.user?.userId} ${partners.user?.userId}`}</p>;
+}
+
+describe("Named instances", () => {
+  it("addresses side-by-side providers by name while unnamed hooks keep the default", async () => {
+    const workspaces = createFakeVortexBackend({ user: { userId: "customer-1" } });
+    const partners = createFakeVortexBackend({ user: { userId: "partner-1" } });
+    partners.addInvitation({ id: "p-inv", groups: [createInvitationGroup({ type: "portal", groupId: "p-1" })] });
+
+    let revoke: ((id: string) => Promise<void>) | null = null;
+    function PartnerInvitations() {
+      const { data } = useGroupInvitations("portal", "p-1", { instance: "partners" });
+      revoke = useInvitations({ instance: "partners" }).revokeInvitation;
+      return <p data-testid="partner-invitations">{data?.map((invitation) => invitation.id).join(",")}</p>;
+    }
+
+    render(
+      <MockVortexProvider backend={workspaces}>
+        <MockVortexProvider name="partners" backend={partners}>
+          <Users />
+          <PartnerInvitations />
+        </MockVortexProvider>
+      </MockVortexProvider>
+    );
+
+    expect(screen.getByTestId("users").textContent).toBe("customer-1 partner-1");
+    await waitFor(() => expect(screen.getByTestId("partner-invitations").textContent).toBe("p-inv"));
+
+    await act(async () => {
+      await revoke!("p-inv");
+    });
+    expect(partners.getInvitation("p-inv")?.deactivated).toBe(true);
+    expect(workspaces.requests).toHaveLength(0);
+  });
+
+  it("serves unnamed hooks from a named provider when there is no unnamed one", () => {
+    let name: string | undefined;
+    function Probe() {
+      name = useVortex().user?.userId;
+      return null;
+    }
+    render(
+      <MockVortexProvider name="partners" user={{ userId: "partner-1" }}>
+        <Probe />
+      </MockVortexProvider>
+    );
+    expect(name).toBe("partner-1");
+  });
+
+  it("throws for an unknown instance", () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    function Probe() {
+      useVortex({ instance: "billing" });
+      return null;
+    }
+    expect(() => render(<MockVortexProvider><Probe /></MockVortexProvider>)).toThrow(
+      'useVortexContext must be used within a VortexProvider named "billing"'
+    );
+    jest.restoreAllMocks();
+  });
+});
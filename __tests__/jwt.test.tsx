@@ -0,0 +1,54 @@
+import { describe, it, expect } from "@jest/globals";
+import { render } from "@testing-library/react";
+import { VortexProvider, useVortexAuth, useVortexJWT, decodeVortexJwt } from "../src";
+import { createTestJwt } from "../src/testing";
+import React from "react";
+
+// Encodes like a real issuer: UTF-8, base64url alphabet, no padding
+const base64Url = (value: string) =>
+  Buffer.from(value, "utf8").toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+describe("decodeVortexJwt", () => {
+  it("decodes unpadded base64url payloads with non-ASCII claims", () => {
+    // Characters like "ë" and "?" encode to the URL-safe "_" and "-" characters
+    const payload = { sub: "user-1", name: "Zoë Ångström 日本", note: "??>", exp: 1700000000, iat: "1600000000" };
+    const jwt = `${base64Url('{"alg":"none"}')}.${base64Url(JSON.stringify(payload))}.sig`;
+    expect(jwt.split(".")[1]).toMatch(/[-_]/);
+
+    expect(decodeVortexJwt<{ name: string }>(jwt)).toEqual({ ...payload, iat: 1600000000 });
+  });
+
+  it("drops standard claims of the wrong type and rejects malformed tokens", () => {
+    const jwt = `header.${base64Url(JSON.stringify({ sub: 42, exp: "soon" }))}.sig`;
+    expect(decodeVortexJwt(jwt)).toMatchObject({ sub: undefined, exp: undefined, iat: undefined });
+
+    expect(() => decodeVortexJwt("not-a-jwt")).toThrow("Invalid JWT");
+    expect(() => decodeVortexJwt(`header.${base64Url("[1]")}.sig`)).toThrow("Invalid JWT");
+  });
+});
+
+describe("Claim mapping", () => {
+  it("exposes custom claims through mapClaimsToUser and reads expiry of base64url tokens", () => {
+    const jwt = createTestJwt({ userId: "user-1", userEmail: "zoë@example.com", org_id: "acme" });
+    let auth: ReturnType<typeof useVortexAuth<{ orgId: string }>> | null = null;
+    let expiring: boolean | null = null;
+    function Probe() {
+      auth = useVortexAuth<{ orgId: string }>();
+      expiring = useVortexJWT().isExpiringSoon(5);
+      return null;
+    }
+
+    render(
+      <VortexProvider
+        initialJwt={jwt}
+        config={{ refreshJwtInterval: 0, mapClaimsToUser: (claims, user) => ({ ...user, orgId: claims.org_id as string }) }}
+      >
+        <Probe />
+      </VortexProvider>
+    );
+
+    expect(auth!.user).toMatchObject({ userId: "user-1", userEmail: "zoë@example.com", orgId: "acme" });
+    expect(auth!.user!.orgId).toBe("acme");
+    expect(expiring).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "@jest/globals";
+import { render, screen, waitFor, act } from "@testing-library/react";
+import { useInfiniteGroupInvitations, mergeInvitationPages } from "../src";
+import type { VortexClient } from "../src";
+import { MockVortexProvider, createFakeVortexBackend, createInvitationGroup } from "../src/testing";
+import React from "react";
+
+function seedTeam(count: number) {
+  const backend = createFakeVortexBackend();
+  const team = createInvitationGroup({ type: "team", groupId: "t-1" });
+  for (let index = 1; index <= count; index++) {
+    backend.addInvitation({
+      id: `inv-${index}`,
+      groups: [team],
+      createdAt: new Date(Date.UTC(2024, 0, index)).toISOString(),
+      status: index % 2 === 0 ? "accepted" : "delivered",
+    });
+  }
+  return backend;
+}
+
+describe("Paginated invitation listing", () => {
+  it("returns typed pages when list options are passed", async () => {
+    const backend = seedTeam(5);
+    let client: VortexClient | null = null;
+    render(<MockVortexProvider backend={backend} onClient={(c) => (client = c)}>{null}</MockVortexProvider>);
+
+    const all = await client!.getInvitationsByGroup("team", "t-1");
+    expect(all).toHaveLength(5);
+
+    const first = await client!.getInvitationsByGroup("team", "t-1", {
+      limit: 2,
+      status: "delivered",
+      sortBy: "createdAt",
+      sortOrder: "asc",
+      createdAfter: new Date(Date.UTC(2024, 0, 1)),
+    });
+    expect(first.invitations.map((invitation) => invitation.id)).toEqual(["inv-1", "inv-3"]);
+    expect(first.totalCount).toBe(3);
+    expect(backend.requests[1].url).toBe(
+      "/api/vortex/invitations/by-group/team/t-1?limit=2&status=delivered&createdAfter=2024-01-01T00%3A00%3A00.000Z&sortBy=createdAt&sortOrder=asc"
+    );
+
+    const second = await client!.getInvitationsByGroup("team", "t-1", {
+      limit: 2,
+      status: "delivered",
+      sortBy: "createdAt",
+      sortOrder: "asc",
+      createdAfter: new Date(Date.UTC(2024, 0, 1)),
+      cursor: first.nextCursor!,
+    });
+    expect(second.invitations.map((invitation) => invitation.id)).toEqual(["inv-5"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("loads pages on demand and merges them", async () => {
+    const backend = seedTeam(5);
+
+    function Invitations() {
+      const { invitations, hasNextPage, fetchNextPage, isLoading } = useInfiniteGroupInvitations("team", "t-1", {
+        limit: 2,
+        sortOrder: "asc",
+      });
+      return (
+        <div>
+          <span data-testid="ids">{isLoading ? "loading" : invitations.map((invitation) => invitation.id).join(",")}</span>
+          {hasNextPage && <button onClick={() => fetchNextPage()}>more</button>}
+        </div>
+      );
+    }
+
+    render(
+      <MockVortexProvider backend={backend}>
+        <Invitations />
+      </MockVortexProvider>
+    );
+
+    await waitFor(() => expect(screen.getByTestId("ids").textContent).toBe("inv-1,inv-2"));
+    await act(async () => screen.getByText("more").click());
+    await waitFor(() => expect(screen.getByTestId("ids").textContent).toBe("inv-1,inv-2,inv-3,inv-4"));
+    await act(async () => screen.getByText("more").click());
+    await waitFor(() => expect(screen.getByTestId("ids").textContent).toBe("inv-1,inv-2,inv-3,inv-4,inv-5"));
+    expect(screen.queryByText("more")).toBeNull();
+  });
+
+  it("merges pages without duplicates", () => {
+    const page = (ids: string[]) => ({ invitations: ids.map((id) => ({ id }) as never), nextCursor: null });
+    const merged = mergeInvitationPages([page(["a", "b"]), page(["b", "c"])]);
+    expect(merged.map((invitation) => invitation.id)).toEqual(["a", "b", "c"]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { render, screen, act } from "@testing-library/react";
+import { VortexProvider, VortexGate, RequireVortexAuth, useVortexPermissions } from "../src";
+import type { VortexPermissions } from "../src";
+import { MockVortexProvider, createFakeVortexBackend } from "../src/testing";
+import React from "react";
+
+const admin = {
+  userId: "user-1",
+  adminScopes: ["autojoin"],
+  role: "owner",
+  groups: [{ type: "workspace", groupId: "w-1", name: "Acme" }],
+};
+
+describe("useVortexPermissions", () => {
+  it("checks scopes, roles and group membership", () => {
+    let permissions: VortexPermissions | null = null;
+    function Probe() {
+      permissions = useVortexPermissions();
+      return null;
+    }
+    render(<MockVortexProvider user={admin}><Probe /></MockVortexProvider>);
+
+    expect(permissions!.hasScope("autojoin")).toBe(true);
+    expect(permissions!.hasScope(["autojoin", "billing"])).toBe(false);
+    expect(permissions!.hasRole(["admin", "owner"])).toBe(true);
+    expect(permissions!.isMemberOf("workspace", "w-1")).toBe(true);
+    expect(permissions!.isMemberOf("workspace")).toBe(true);
+    expect(permissions!.isMemberOf("workspace", "w-2")).toBe(false);
+  });
+});
+
+describe("Gating components", () => {
+  it("renders children or the fallback depending on permissions", () => {
+    render(
+      <MockVortexProvider user={admin}>
+        <VortexGate scope="autojoin" group={{ type: "workspace", id: "w-1" }} fallback={<p>denied</p>}>
+          <p>allowed</p>
+        </VortexGate>
+        <VortexGate scope="billing" fallback={<p>no billing</p>}><p>billing</p></VortexGate>
+        <VortexGate role="viewer" fallback={<p>not a viewer</p>}><p>viewer</p></VortexGate>
+      </MockVortexProvider>
+    );
+
+    expect(screen.getByText("allowed")).toBeTruthy();
+    expect(screen.getByText("no billing")).toBeTruthy();
+    expect(screen.getByText("not a viewer")).toBeTruthy();
+  });
+
+  it("fetches a token when there is none, showing loading meanwhile", async () => {
+    const backend = createFakeVortexBackend({ user: admin, latencyMs: 10 });
+    render(
+      <VortexProvider config={{ refreshJwtInterval: 0, fetcher: backend.fetcher }}>
+        <RequireVortexAuth loading="loading" fallback="sign in">welcome</RequireVortexAuth>
+      </VortexProvider>
+    );
+
+    expect(screen.getByText("loading")).toBeTruthy();
+    expect(await screen.findByText("welcome")).toBeTruthy();
+    expect(backend.requests.filter((request) => request.route === "jwt")).toHaveLength(1);
+  });
+
+  it("shows the fallback once the refresh fails, without retrying forever", async () => {
+    const giveUp = jest.spyOn(console, "error").mockImplementation(() => {});
+    const backend = createFakeVortexBackend({ user: null });
+    render(
+      <VortexProvider config={{ refreshJwtInterval: 0, fetcher: backend.fetcher, jwtBackoff: { maxRetries: 0 } }}>
+        <RequireVortexAuth loading="loading" fallback="sign in">welcome</RequireVortexAuth>
+      </VortexProvider>
+    );
+
+    expect(await screen.findByText("sign in")).toBeTruthy();
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    });
+    expect(backend.requests.filter((request) => request.route === "jwt")).toHaveLength(1);
+    expect(giveUp).toHaveBeenCalledWith(expect.stringContaining("Giving up"), expect.anything());
+    giveUp.mockRestore();
+  });
+});
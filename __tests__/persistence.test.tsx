@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import { render, act, screen } from "@testing-library/react";
+import { VortexProvider, useVortexAuth, createSessionStoragePersistence, createMemoryPersistence } from "../src";
+import type { VortexFetcher } from "../src";
+import { jsonResponse, makeJwt } from "./helpers";
+import React from "react";
+
+const inSeconds = (seconds: number) => Math.floor(Date.now() / 1000) + seconds;
+
+describe("Token persistence", () => {
+  let fetcher: jest.MockedFunction<VortexFetcher>;
+  let auth: ReturnType<typeof useVortexAuth> | null = null;
+
+  let renders: string[] = [];
+
+  function Status() {
+    auth = useVortexAuth();
+    renders.push(auth.user?.userId ?? "signed out");
+    return <div>{auth.user?.userId ?? "signed out"}</div>;
+  }
+
+  beforeEach(() => {
+    renders = [];
+    sessionStorage.clear();
+    fetcher = jest.fn<VortexFetcher>(async () => jsonResponse({ jwt: makeJwt({ userId: "fresh", exp: inSeconds(600) }) }));
+  });
+
+  it("rehydrates an unexpired token once mounted without fetching, so the first render matches the server", () => {
+    sessionStorage.setItem(
+      "vortex:tokens",
+      JSON.stringify({ default: { jwt: makeJwt({ userId: "stored", exp: inSeconds(600) }), active: true } })
+    );
+    render(
+      <VortexProvider config={{ fetcher, persistence: createSessionStoragePersistence() }}>
+        <Status />
+      </VortexProvider>
+    );
+
+    expect(renders[0]).toBe("signed out");
+    expect(screen.getByText("stored")).toBeTruthy();
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it("rehydrates before the first render with rehydrateBeforeFirstRender", () => {
+    sessionStorage.setItem(
+      "vortex:tokens",
+      JSON.stringify({ default: { jwt: makeJwt({ userId: "stored", exp: inSeconds(600) }), active: true } })
+    );
+    const config = { fetcher, persistence: createSessionStoragePersistence(), rehydrateBeforeFirstRender: true };
+
+    render(
+      <VortexProvider config={config}>
+        <Status />
+      </VortexProvider>
+    );
+
+    expect(renders[0]).toBe("stored");
+  });
+
+  it("ignores expired persisted tokens", () => {
+    sessionStorage.setItem(
+      "vortex:tokens",
+      JSON.stringify({ default: { jwt: makeJwt({ userId: "stale", exp: inSeconds(-10) }), active: true } })
+    );
+
+    render(
+      <VortexProvider config={{ fetcher, persistence: createSessionStoragePersistence() }}>
+        <Status />
+      </VortexProvider>
+    );
+
+    expect(screen.getByText("signed out")).toBeTruthy();
+  });
+
+  it("persists refreshed tokens and removes them on clearAuth", async () => {
+    const persistence = createMemoryPersistence();
+    render(
+      <VortexProvider config={{ fetcher, persistence }}>
+        <Status />
+      </VortexProvider>
+    );
+
+    await act(() => auth!.refreshJwt());
+    expect(JSON.parse(persistence.get("vortex:tokens") as string).default.jwt).toBe(auth!.jwt);
+
+    act(() => auth!.clearAuth());
+    expect(persistence.get("vortex:tokens")).toBeNull();
+  });
+
+  it("removes the persisted token once the refresh fails for good", async () => {
+    jest.useFakeTimers();
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const giveUp = jest.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const persistence = createMemoryPersistence();
+      render(
+        <VortexProvider config={{ fetcher, persistence, jwtBackoff: { maxRetries: 1 } }}>
+          <Status />
+        </VortexProvider>
+      );
+      await act(() => auth!.refreshJwt());
+      expect(persistence.get("vortex:tokens")).not.toBeNull();
+
+      // The session ended server-side: the refresh fails, backs off once, then gives up
+      fetcher.mockResolvedValue(jsonResponse({ error: "Unauthorized" }, 401));
+      await act(() => auth!.refreshJwt());
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(persistence.get("vortex:tokens")).not.toBeNull();
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(60 * 1000);
+      });
+      expect(giveUp).toHaveBeenCalledWith(expect.stringContaining("Giving up"), expect.anything());
+      expect(persistence.get("vortex:tokens")).toBeNull();
+    } finally {
+      warn.mockRestore();
+      giveUp.mockRestore();
+      jest.useRealTimers();
+    }
+  });
+});
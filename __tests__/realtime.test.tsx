@@ -0,0 +1,202 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { render, screen, waitFor, act } from "@testing-library/react";
+import { VortexClient, useInvitation, useInvitationEvents, createFetchSseTransport, createSseTransport } from "../src";
+import type { InvitationEvent, VortexRealtimeConnectOptions, VortexRealtimeTransport } from "../src";
+import { MockVortexProvider, createFakeVortexBackend, createTestJwt } from "../src/testing";
+import React from "react";
+import { TextDecoder, TextEncoder } from "util";
+
+describe("Realtime invitation events", () => {
+  it("applies pushed changes to cached invitations and notifies matching handlers", async () => {
+    const backend = createFakeVortexBackend();
+    const invitation = backend.addInvitation({ status: "sending" });
+    const handler = jest.fn();
+
+    function PendingInvite() {
+      const { data } = useInvitation(invitation.id);
+      useInvitationEvents({ types: ["invitation.status_changed"] }, handler);
+      return <span data-testid="status">{data?.status}</span>;
+    }
+
+    render(
+      <MockVortexProvider backend={backend}>
+        <PendingInvite />
+      </MockVortexProvider>
+    );
+    await waitFor(() => expect(screen.getByTestId("status").textContent).toBe("sending"));
+
+    act(() => {
+      backend.emitEvent({ type: "invitation.viewed", invitationId: invitation.id, changes: { views: 1 } });
+      backend.emitEvent({ type: "invitation.status_changed", invitationId: invitation.id, changes: { status: "delivered" } });
+    });
+
+    expect(screen.getByTestId("status").textContent).toBe("delivered");
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({ changes: { status: "delivered" } });
+    // Updated from the stream, not refetched
+    expect(backend.requests.filter((request) => request.route === "getInvitation")).toHaveLength(1);
+  });
+
+  it("reconnects with jwtBackoff using the current JWT and reports when it gives up", () => {
+    jest.useFakeTimers();
+    try {
+      const connections: VortexRealtimeConnectOptions[] = [];
+      const transport: VortexRealtimeTransport = {
+        connect: (options) => {
+          connections.push(options);
+          return { close: () => {} };
+        },
+      };
+      const onError = jest.fn();
+      const jwt = createTestJwt({ userId: "user-1" });
+      const client = new VortexClient(
+        {
+          refreshJwtInterval: 0,
+          realtime: { transport },
+          jwtBackoff: { initialDelayMs: 100, multiplier: 2, maxRetries: 2 },
+          onError,
+        },
+        { initialJwt: jwt }
+      );
+      client.start();
+
+      expect(connections).toHaveLength(1);
+      expect(connections[0]).toMatchObject({ url: "/api/vortex/events", jwt });
+
+      connections[0].onError(new Error("dropped"));
+      jest.advanceTimersByTime(99);
+      expect(connections).toHaveLength(1);
+      jest.advanceTimersByTime(1);
+      expect(connections).toHaveLength(2);
+      expect(connections[1].jwt).toBe(jwt);
+
+      connections[1].onError(new Error("dropped"));
+      jest.advanceTimersByTime(200);
+      expect(connections).toHaveLength(3);
+
+      connections[2].onError(new Error("dropped"));
+      jest.advanceTimersByTime(10000);
+      expect(connections).toHaveLength(3);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: "Realtime connection failed" }));
+      client.stop();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("waits for a token and reopens the stream whenever the active token changes", async () => {
+    const connections: VortexRealtimeConnectOptions[] = [];
+    const transport: VortexRealtimeTransport = {
+      connect: (options) => {
+        connections.push(options);
+        return { close: () => {} };
+      },
+    };
+    const backend = createFakeVortexBackend({ user: { userId: "user-1" } });
+    const client = new VortexClient({ refreshJwtInterval: 0, fetcher: backend.fetcher, realtime: { transport } });
+    client.start();
+    expect(connections).toHaveLength(0);
+
+    await client.refreshJwt();
+    expect(connections).toHaveLength(1);
+    expect(connections[0].jwt).toBe(client.getActiveToken()?.jwt);
+
+    backend.setUser({ userId: "user-2" });
+    await client.refreshJwt();
+    expect(connections).toHaveLength(2);
+    expect(connections[1].jwt).toBe(client.getActiveToken()?.jwt);
+
+    client.clearAuth();
+    expect(connections).toHaveLength(2);
+    client.stop();
+  });
+
+  it("streams named and unnamed Server-Sent Events over EventSource", () => {
+    const sources: FakeEventSource[] = [];
+    class FakeEventSource {
+      url: string;
+      listeners: Record<string, (message: MessageEvent) => void> = {};
+      onopen: (() => void) | null = null;
+      onmessage: ((message: MessageEvent) => void) | null = null;
+      onerror: ((error: unknown) => void) | null = null;
+      closed = false;
+      constructor(url: string) {
+        this.url = url;
+        sources.push(this);
+      }
+      addEventListener(type: string, listener: (message: MessageEvent) => void) {
+        this.listeners[type] = listener;
+      }
+      close() {
+        this.closed = true;
+      }
+    }
+    (globalThis as unknown as { EventSource: unknown }).EventSource = FakeEventSource;
+    try {
+      const events: InvitationEvent[] = [];
+      createSseTransport().connect({
+        url: "/api/vortex/events",
+        jwt: "a.b.c",
+        onOpen: () => {},
+        onEvent: (event) => events.push(event),
+        onError: () => {},
+      });
+
+      expect(sources[0].url).toBe("/api/vortex/events");
+      createSseTransport({ accessTokenInUrl: true }).connect({
+        url: "/api/vortex/events",
+        jwt: "a.b.c",
+        onOpen: () => {},
+        onEvent: () => {},
+        onError: () => {},
+      });
+      expect(sources[1].url).toBe("/api/vortex/events?access_token=a.b.c");
+      sources[0].onmessage!({
+        type: "message",
+        data: JSON.stringify({ type: "invitation.clicked", invitationId: "inv-1", changes: { clickThroughs: 2 } }),
+      } as MessageEvent);
+      sources[0].listeners["invitation.viewed"]({
+        type: "invitation.viewed",
+        data: JSON.stringify({ invitationId: "inv-1", changes: { views: 3 } }),
+      } as MessageEvent);
+
+      expect(events).toEqual([
+        { type: "invitation.clicked", invitationId: "inv-1", changes: { clickThroughs: 2 } },
+        { type: "invitation.viewed", invitationId: "inv-1", changes: { views: 3 } },
+      ]);
+    } finally {
+      delete (globalThis as unknown as { EventSource?: unknown }).EventSource;
+    }
+  });
+
+  it("streams Server-Sent Events over fetch with the JWT in an Authorization header", async () => {
+    const encoder = new TextEncoder();
+    const chunks = [
+      'event: invitation.viewed\ndata: {"invitationId":"inv-1",',
+      '"changes":{"views":3}}\n\n: keep-alive\n\ndata: {"type":"invitation.clicked","invitationId":"inv-1"}\n\n',
+    ].map((chunk) => encoder.encode(chunk));
+    const body = { getReader: () => ({ read: async () => (chunks.length ? { done: false, value: chunks.shift() } : { done: true }) }) };
+    const fetchMock = jest.fn(async (_url: string, _init: RequestInit) => ({ ok: true, status: 200, body }) as unknown as Response);
+    const globals = globalThis as unknown as Record<string, unknown>;
+    const original = { fetch: globals.fetch, TextDecoder: globals.TextDecoder };
+    Object.assign(globals, { fetch: fetchMock, TextDecoder });
+    try {
+      const events: InvitationEvent[] = [];
+      const onOpen = jest.fn();
+      const closed = new Promise<unknown>((resolve) => {
+        createFetchSseTransport().connect({ url: "/api/vortex/events", jwt: "a.b.c", onOpen, onEvent: (event) => events.push(event), onError: resolve });
+      });
+
+      expect(((await closed) as Error).message).toBe("Realtime stream closed");
+      expect(fetchMock.mock.calls[0][0]).toBe("/api/vortex/events");
+      expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: "Bearer a.b.c", Accept: "text/event-stream" });
+      expect(onOpen).toHaveBeenCalledTimes(1);
+      expect(events).toEqual([
+        { type: "invitation.viewed", invitationId: "inv-1", changes: { views: 3 } },
+        { type: "invitation.clicked", invitationId: "inv-1", changes: {} },
+      ]);
+    } finally {
+      Object.assign(globals, original);
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { render, act } from "@testing-library/react";
+import { VortexProvider, useVortexAuth } from "../src";
+import type { VortexFetcher } from "../src";
+import { jsonResponse, makeJwt } from "./helpers";
+import React from "react";
+
+function setVisibility(state: "visible" | "hidden") {
+  Object.defineProperty(document, "visibilityState", { configurable: true, get: () => state });
+  document.dispatchEvent(new Event("visibilitychange"));
+}
+
+describe("Expiry-driven JWT refresh", () => {
+  let fetcher: jest.MockedFunction<VortexFetcher>;
+  let auth: ReturnType<typeof useVortexAuth> | null = null;
+
+  function Capture() {
+    auth = useVortexAuth();
+    return null;
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    setVisibility("visible");
+    // Tokens live for 10 minutes
+    fetcher = jest.fn<VortexFetcher>(async () =>
+      jsonResponse({ jwt: makeJwt({ userId: "u-1", exp: Math.floor(Date.now() / 1000) + 600 }) })
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("refreshes shortly before the exp claim instead of the fixed interval", async () => {
+    render(
+      <VortexProvider config={{ fetcher, refreshSkewMs: 60 * 1000 }}>
+        <Capture />
+      </VortexProvider>
+    );
+    await act(() => auth!.refreshJwt());
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      jest.advanceTimersByTime(8 * 60 * 1000);
+    });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      jest.advanceTimersByTime(60 * 1000);
+    });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("pauses while hidden and refreshes stale tokens when the tab becomes visible", async () => {
+    render(
+      <VortexProvider config={{ fetcher, refreshSkewMs: 60 * 1000 }}>
+        <Capture />
+      </VortexProvider>
+    );
+    await act(() => auth!.refreshJwt());
+
+    act(() => setVisibility("hidden"));
+    await act(async () => {
+      jest.advanceTimersByTime(20 * 60 * 1000);
+    });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await act(async () => setVisibility("visible"));
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("refreshes stale tokens when the browser comes back online", async () => {
+    render(
+      <VortexProvider config={{ fetcher, refreshSkewMs: 60 * 1000 }}>
+        <Capture />
+      </VortexProvider>
+    );
+    await act(() => auth!.refreshJwt());
+
+    // The device slept offline past the refresh time, so the timer never got to fire
+    jest.setSystemTime(Date.now() + 20 * 60 * 1000);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      window.dispatchEvent(new Event("online"));
+    });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { render, screen } from "@testing-library/react";
+import { VortexProvider, useScopedJwt } from "../src";
+import type { VortexFetcher } from "../src";
+import { jsonResponse, makeJwt } from "./helpers";
+import React from "react";
+
+function ScopedWidget({ scope, scopeType }: { scope: string; scopeType: string }) {
+  const { user, isLoading } = useScopedJwt({ componentId: "widget", scope, scopeType });
+  if (isLoading) return <div>{scopeType}: loading</div>;
+  return <div>{scopeType}: {user?.userId}</div>;
+}
+
+describe("Scoped JWTs", () => {
+  it("keeps an independent token per JwtContext", async () => {
+    const fetcher = jest.fn<VortexFetcher>(async (_url, init) => {
+      const { context } = JSON.parse(init.body as string);
+      return jsonResponse({ jwt: makeJwt({ userId: `${context.scopeType}-user` }) });
+    });
+
+    render(
+      <VortexProvider config={{ refreshJwtInterval: 0, fetcher }}>
+        <ScopedWidget scopeType="team" scope="t-1" />
+        <ScopedWidget scopeType="workspace" scope="w-1" />
+      </VortexProvider>
+    );
+
+    expect(await screen.findByText("team: team-user")).toBeTruthy();
+    expect(await screen.findByText("workspace: workspace-user")).toBeTruthy();
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares one request between widgets using the same context", async () => {
+    const fetcher = jest.fn<VortexFetcher>().mockResolvedValue(jsonResponse({ jwt: makeJwt({ userId: "u-1" }) }));
+
+    render(
+      <VortexProvider config={{ refreshJwtInterval: 0, fetcher }}>
+        <ScopedWidget scopeType="team" scope="t-1" />
+        <ScopedWidget scopeType="team" scope="t-1" />
+      </VortexProvider>
+    );
+
+    expect(await screen.findAllByText("team: u-1")).toHaveLength(2);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, jest, afterEach } from "@jest/globals";
+import { render, screen, act, fireEvent } from "@testing-library/react";
+import { useSuspenseInvitation, useSuspenseGroupInvitations, useSuspenseVortexAuth, VortexErrorBoundary } from "../src";
+import { MockVortexProvider, createFakeVortexBackend, createInvitationGroup } from "../src/testing";
+import React, { Suspense } from "react";
+
+function Invitation({ id }: { id: string }) {
+  const { data } = useSuspenseInvitation(id);
+  return <p data-testid="invitation">{data.id}</p>;
+}
+
+function Team() {
+  const { data } = useSuspenseGroupInvitations("team", "t-1");
+  return <p data-testid="team">{data.map((invitation) => invitation.id).join(",")}</p>;
+}
+
+describe("Suspense hooks", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("suspends until the query has data", async () => {
+    const backend = createFakeVortexBackend({ latencyMs: 5 });
+    backend.addInvitation({ id: "inv-1", groups: [createInvitationGroup({ type: "team", groupId: "t-1" })] });
+    render(
+      <MockVortexProvider backend={backend}>
+        <Suspense fallback={<p>Loading…</p>}>
+          <Invitation id="inv-1" />
+          <Team />
+        </Suspense>
+      </MockVortexProvider>
+    );
+
+    expect(screen.getByText("Loading…")).toBeTruthy();
+    expect((await screen.findByTestId("invitation")).textContent).toBe("inv-1");
+    expect(screen.getByTestId("team").textContent).toBe("inv-1");
+  });
+
+  it("throws a failed query to VortexErrorBoundary, whose retry refetches it", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const backend = createFakeVortexBackend();
+    backend.addInvitation({ id: "inv-1" });
+    backend.failNext("getInvitation", { status: 500, error: "Database unavailable" });
+    const onError = jest.fn();
+    render(
+      <MockVortexProvider backend={backend}>
+        <VortexErrorBoundary onError={onError}>
+          <Suspense fallback={<p>Loading…</p>}>
+            <Invitation id="inv-1" />
+          </Suspense>
+        </VortexErrorBoundary>
+      </MockVortexProvider>
+    );
+
+    expect((await screen.findByRole("alert")).textContent).toContain("Database unavailable");
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      fireEvent.click(screen.getByText("Try again"));
+    });
+    expect((await screen.findByTestId("invitation")).textContent).toBe("inv-1");
+    expect(backend.requests.filter((request) => request.route === "getInvitation")).toHaveLength(2);
+  });
+
+  it("suspends until a JWT is available and retries the refresh from the boundary", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const backend = createFakeVortexBackend();
+    function User() {
+      const { user } = useSuspenseVortexAuth();
+      const scoped = useSuspenseVortexAuth({ componentId: "widget-1" });
+      return <p data-testid="user">{`${user?.userId} ${scoped.jwt ? "scoped" : ""}`}</p>;
+    }
+    render(
+      <MockVortexProvider backend={backend} user={null} config={{ jwtBackoff: { maxRetries: 0 } }}>
+        <VortexErrorBoundary fallback={({ error, retry }) => <button onClick={retry}>{error.message}</button>}>
+          <Suspense fallback={<p>Signing in…</p>}>
+            <User />
+          </Suspense>
+        </VortexErrorBoundary>
+      </MockVortexProvider>
+    );
+
+    expect(screen.getByText("Signing in…")).toBeTruthy();
+    const retry = await screen.findByRole("button");
+    backend.setUser({ userId: "user-1" });
+    await act(async () => {
+      fireEvent.click(retry);
+    });
+    expect((await screen.findByTestId("user")).textContent).toBe("user-1 scoped");
+  });
+
+  it("leaves errors that are not provider errors to the next boundary", () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    function Broken(): React.ReactElement {
+      throw new Error("Render bug");
+    }
+    expect(() =>
+      render(
+        <MockVortexProvider>
+          <VortexErrorBoundary>
+            <Broken />
+          </VortexErrorBoundary>
+        </MockVortexProvider>
+      )
+    ).toThrow("Render bug");
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { render, screen, waitFor, act } from "@testing-library/react";
+import { useVortexAuth, useGroupInvitations, VortexApiError, VortexNetworkError } from "../src";
+import { getJwtExpiry } from "../src/utils";
+import type { VortexClient } from "../src";
+import {
+  MockVortexProvider,
+  createFakeVortexBackend,
+  createInvitationGroup,
+  createInvitationResult,
+  createTestJwt,
+} from "../src/testing";
+import React from "react";
+
+function TeamInvitations() {
+  const { user } = useVortexAuth();
+  const { data, error } = useGroupInvitations("team", "t-1");
+  return (
+    <div data-testid="team">
+      {user?.userId ?? "signed-out"}: {error ? error.message : data?.map((invitation) => invitation.id).join(",")}
+    </div>
+  );
+}
+
+describe("Testing toolkit", () => {
+  it("renders against the fake backend with a signed-in user", async () => {
+    const backend = createFakeVortexBackend({ requireAuth: true });
+    backend.addInvitation({ id: "inv-a", groups: [createInvitationGroup({ type: "team", groupId: "t-1" })] });
+    backend.addInvitation({ id: "inv-b" });
+
+    render(
+      <MockVortexProvider backend={backend} user={{ userId: "admin-1" }}>
+        <TeamInvitations />
+      </MockVortexProvider>
+    );
+
+    await waitFor(() => expect(screen.getByTestId("team").textContent).toBe("admin-1: inv-a"));
+    expect(backend.requests.map((request) => request.route)).toEqual(["getInvitationsByGroup"]);
+  });
+
+  it("switches auth state when the user prop changes", async () => {
+    const backend = createFakeVortexBackend();
+    const { rerender } = render(
+      <MockVortexProvider backend={backend} user={null}>
+        <TeamInvitations />
+      </MockVortexProvider>
+    );
+    expect(screen.getByTestId("team").textContent).toMatch(/^signed-out/);
+
+    rerender(
+      <MockVortexProvider backend={backend} user={{ userId: "user-2" }}>
+        <TeamInvitations />
+      </MockVortexProvider>
+    );
+    await waitFor(() => expect(screen.getByTestId("team").textContent).toMatch(/^user-2/));
+  });
+
+  it("applies realistic status transitions", async () => {
+    const backend = createFakeVortexBackend();
+    const invitation = backend.addInvitation();
+    const revoked = backend.addInvitation();
+    let client: VortexClient | null = null;
+    render(<MockVortexProvider backend={backend} onClient={(c) => (client = c)}>{null}</MockVortexProvider>);
+
+    const target = { type: "email" as const, value: "new@example.com" };
+    const accepted = await client!.acceptInvitations([invitation.id], target);
+    expect(accepted.status).toBe("accepted");
+    await expect(client!.acceptInvitations([invitation.id], target)).rejects.toMatchObject({ status: 409 });
+    await expect(client!.reinvite(invitation.id)).rejects.toMatchObject({ status: 409 });
+
+    await client!.revokeInvitation(revoked.id);
+    expect(backend.getInvitation(revoked.id)?.deactivated).toBe(true);
+    await expect(client!.reinvite(revoked.id)).rejects.toMatchObject({ status: 410 });
+
+    const pending = backend.addInvitation({ deliveryCount: 1 });
+    const reinvited = await client!.reinvite(pending.id);
+    expect(reinvited).toMatchObject({ status: "queued", deliveryCount: 2 });
+    backend.deliverQueued();
+    expect(backend.getInvitation(pending.id)?.status).toBe("delivered");
+  });
+
+  it("simulates failures, latency and token expiry", async () => {
+    jest.useFakeTimers();
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const backend = createFakeVortexBackend({ requireAuth: true, latencyMs: 500 });
+      const invitation = backend.addInvitation();
+      let client: VortexClient | null = null;
+      render(<MockVortexProvider backend={backend} onClient={(c) => (client = c)}>{null}</MockVortexProvider>);
+
+      const slow = client!.getInvitation(invitation.id);
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(500);
+      });
+      await expect(slow).resolves.toMatchObject({ id: invitation.id });
+      backend.setLatency(0);
+
+      backend.failNext("revokeInvitation", { status: 503, error: "Unavailable" });
+      const error = await client!.revokeInvitation(invitation.id).catch((e) => e);
+      expect(error).toBeInstanceOf(VortexApiError);
+      expect(error).toMatchObject({ status: 503, retryable: true });
+
+      backend.failNext("*", { network: true });
+      await expect(client!.revokeInvitation(invitation.id)).rejects.toBeInstanceOf(VortexNetworkError);
+
+      // Expired tokens are refreshed and the request replayed; it only fails once the refresh fails too
+      backend.expireTokens();
+      await act(async () => {
+        await expect(client!.getInvitationsByTarget("email", "x@example.com")).resolves.toEqual([]);
+      });
+      backend.expireTokens();
+      backend.setUser(null);
+      await act(async () => {
+        await expect(client!.getInvitationsByTarget("email", "y@example.com")).rejects.toMatchObject({ status: 401 });
+      });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("JWT refresh failed (attempt 1/"), expect.anything());
+    } finally {
+      warn.mockRestore();
+      jest.useRealTimers();
+    }
+  });
+
+  it("builds invitations and decodable tokens", () => {
+    const first = createInvitationResult();
+    const second = createInvitationResult({ status: "accepted" });
+    expect(first.id).not.toBe(second.id);
+    expect(second.status).toBe("accepted");
+
+    const expired = createTestJwt({ userId: "user-9" }, { expiresInMs: -1000 });
+    expect(getJwtExpiry(expired)!).toBeLessThan(Date.now());
+    expect(getJwtExpiry(createTestJwt({}, { expiresInMs: null }))).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { render, act } from "@testing-library/react";
+import {
+  VortexProvider,
+  useVortex,
+  bearerTokenInterceptor,
+  headersInterceptor,
+  isMissingRouteError,
+  VortexApiError,
+  VortexAuthError,
+  VortexNetworkError,
+} from "../src";
+import type { VortexFetcher } from "../src";
+import { jsonResponse } from "./helpers";
+import React from "react";
+
+function renderWithVortex(config: React.ComponentProps<typeof VortexProvider>["config"]) {
+  let vortex: ReturnType<typeof useVortex> | null = null;
+  function Capture() {
+    vortex = useVortex();
+    return null;
+  }
+  render(
+    <VortexProvider config={config}>
+      <Capture />
+    </VortexProvider>
+  );
+  return () => vortex!;
+}
+
+describe("Transport and interceptors", () => {
+  it("sends requests through the configured fetcher and request interceptors", async () => {
+    const fetcher = jest.fn<VortexFetcher>().mockResolvedValue(jsonResponse({ invitations: [] }));
+    const getVortex = renderWithVortex({
+      refreshJwtInterval: 0,
+      fetcher,
+      interceptors: [
+        headersInterceptor({ "X-CSRF-Token": "csrf" }),
+        { onRequest: (request) => ({ ...request, url: request.url.replace("/api/vortex", "/proxy") }) },
+      ],
+    });
+
+    await getVortex().getInvitationsByGroup("team", "t-1");
+
+    const [url, init] = fetcher.mock.calls[0];
+    expect(url).toBe("/proxy/invitations/by-group/team/t-1");
+    expect((init.headers as Record<string, string>)["X-CSRF-Token"]).toBe("csrf");
+  });
+
+  it("lets response interceptors adapt a custom envelope", async () => {
+    const fetcher = jest.fn<VortexFetcher>().mockResolvedValue(jsonResponse({ success: true, result: { id: "inv-1" } }));
+    const getVortex = renderWithVortex({
+      refreshJwtInterval: 0,
+      fetcher,
+      interceptors: [
+        {
+          onResponse: (response) => ({
+            ...response,
+            body: { data: (response.body as { result: unknown }).result },
+          }),
+        },
+      ],
+    });
+
+    const invitation = await getVortex().getInvitation("inv-1");
+    expect(invitation.id).toBe("inv-1");
+  });
+
+  it("omits the bearer header until a JWT is available", async () => {
+    const fetcher = jest.fn<VortexFetcher>().mockResolvedValue(jsonResponse({ invitations: [] }));
+    const getVortex = renderWithVortex({ refreshJwtInterval: 0, fetcher, interceptors: [bearerTokenInterceptor()] });
+
+    await getVortex().getInvitationsByTarget("email", "a@example.com");
+
+    const [, init] = fetcher.mock.calls[0];
+    expect((init.headers as Record<string, string>).Authorization).toBeUndefined();
+  });
+});
+
+describe("Typed API errors", () => {
+  it("raises VortexAuthError with request details for 401 responses", async () => {
+    const fetcher = jest
+      .fn<VortexFetcher>()
+      .mockResolvedValue(jsonResponse({ error: "Session expired", code: "token_expired" }, 401));
+    const onError = jest.fn();
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const getVortex = renderWithVortex({ refreshJwtInterval: 0, fetcher, onError });
+
+    let error: unknown;
+    await act(async () => {
+      error = await getVortex().reinvite("inv-1").catch((e: unknown) => e);
+    });
+    // The failed JWT refresh behind the 401 schedules a retry
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("JWT refresh failed (attempt 1/"), expect.anything());
+    warn.mockRestore();
+
+    expect(error).toBeInstanceOf(VortexAuthError);
+    expect(error).toMatchObject({
+      status: 401,
+      code: "token_expired",
+      endpoint: "/invitations/inv-1/reinvite",
+      method: "POST",
+      retryable: false,
+      message: "Session expired",
+    });
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  it("raises VortexNetworkError when no response is received", async () => {
+    const fetcher = jest.fn<VortexFetcher>().mockRejectedValue(new TypeError("Failed to fetch"));
+    const getVortex = renderWithVortex({ refreshJwtInterval: 0, fetcher });
+
+    const error = await getVortex().getInvitation("inv-1").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(VortexNetworkError);
+    expect((error as VortexNetworkError).retryable).toBe(true);
+    expect(isMissingRouteError(error)).toBe(false);
+  });
+
+  it("detects missing routes from the HTTP status", async () => {
+    const fetcher = jest.fn<VortexFetcher>().mockResolvedValue(jsonResponse({ error: "Nope" }, 404));
+    const getVortex = renderWithVortex({ refreshJwtInterval: 0, fetcher });
+
+    const error = await getVortex().getInvitation("inv-1").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(VortexApiError);
+    expect(isMissingRouteError(error)).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { render, screen } from "@testing-library/react";
+import { validateInvitationResult, normalizeInvitationResult, normalizeInvitations, useInvitation, VortexValidationError } from "../src";
+import { MockVortexProvider, createFakeVortexBackend, createInvitationResult, createInvitationGroup } from "../src/testing";
+import { renderClient } from "./helpers";
+import React from "react";
+
+describe("Response validation", () => {
+  it("reports the path of every invalid field", () => {
+    const invitation = {
+      ...createInvitationResult(),
+      status: "archived",
+      target: [{ type: "fax", value: "555" }],
+      groups: [{ id: "g-1" }],
+    };
+
+    const issues = validateInvitationResult(invitation);
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "status",
+      "target[0].type",
+      "groups[0].accountId",
+      "groups[0].groupId",
+      "groups[0].type",
+      "groups[0].name",
+      "groups[0].createdAt",
+    ]);
+    expect(issues[0]).toMatchObject({ received: "archived" });
+    expect(validateInvitationResult(createInvitationResult())).toEqual([]);
+  });
+
+  it("throws a VortexValidationError in strict mode and reports it via onError", async () => {
+    const backend = createFakeVortexBackend();
+    const { id } = backend.addInvitation({ views: "many" as unknown as number });
+    const onError = jest.fn();
+    const client = renderClient(backend, { validation: { mode: "strict" }, onError });
+
+    const error = await client.getInvitation(id).catch((e) => e);
+
+    expect(error).toBeInstanceOf(VortexValidationError);
+    expect(error.issues).toEqual([{ path: "views", message: "expected a number, received \"many\"", received: "many" }]);
+    expect(error.endpoint).toBe(`/invitations/${id}`);
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  it("warns with every issue in development only", async () => {
+    const env = process.env.NODE_ENV;
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const backend = createFakeVortexBackend();
+      const [first, second] = [1, 2].map(() => backend.addInvitation({ deliveryTypes: ["pigeon" as never] }).id);
+      const client = renderClient(backend, { validation: {} });
+
+      process.env.NODE_ENV = "production";
+      await client.getInvitation(first);
+      expect(warn).not.toHaveBeenCalled();
+
+      process.env.NODE_ENV = "development";
+      await expect(client.getInvitation(second)).resolves.toMatchObject({ id: second });
+      expect(warn).toHaveBeenCalledWith(
+        `[Vortex] Invalid InvitationResult from GET /invitations/${second}:\n  deliveryTypes[0]: expected one of email, sms, share, received "pigeon"`
+      );
+    } finally {
+      process.env.NODE_ENV = env;
+      warn.mockRestore();
+    }
+  });
+
+  it("normalizes dates and nullable attributes through the typed helpers", async () => {
+    const backend = createFakeVortexBackend();
+    backend.addInvitation({
+      attributes: null,
+      configurationAttributes: null,
+      modifiedAt: "2024-05-01T00:00:00.000Z",
+      groups: [createInvitationGroup({ type: "team", groupId: "t-1" })],
+    });
+    const client = renderClient(backend, {});
+
+    const raw = await client.getInvitationsByGroup("team", "t-1");
+    expect(typeof raw[0].createdAt).toBe("string");
+
+    const [invitation] = normalizeInvitations(raw);
+
+    expect(invitation.createdAt).toBeInstanceOf(Date);
+    expect(invitation.groups[0].createdAt).toBeInstanceOf(Date);
+    expect(invitation.modifiedAt).toEqual(new Date("2024-05-01T00:00:00.000Z"));
+    expect(invitation.attributes).toEqual({});
+    expect(invitation.configurationAttributes).toEqual({});
+    expect(normalizeInvitationResult(createInvitationResult()).modifiedAt).toBeNull();
+    const page = normalizeInvitations({ invitations: raw, nextCursor: null });
+    expect(page.invitations[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it("fills missing arrays and null attributes before components render them", async () => {
+    const backend = createFakeVortexBackend();
+    const { id } = backend.addInvitation({ groups: undefined as never, target: undefined as never, attributes: null });
+    function Invitation() {
+      const { data } = useInvitation(id);
+      if (!data) return null;
+      return (
+        <p data-testid="invitation">
+          {`${data.groups.length} groups, ${data.target.length} targets, ${Object.keys(data.attributes!).length} attributes`}
+        </p>
+      );
+    }
+    render(
+      <MockVortexProvider backend={backend} config={{ validation: { mode: "off", fillDefaults: true } }}>
+        <Invitation />
+      </MockVortexProvider>
+    );
+
+    expect((await screen.findByTestId("invitation")).textContent).toBe("0 groups, 0 targets, 0 attributes");
+  });
+});
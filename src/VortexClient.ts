@@ -0,0 +1,1177 @@
+"use client";
+
+import { validateVortexApiConfiguration, getJwtContextKey, getJwtExpiry, decodeVortexJwt } from './utils';
+import { InvitationQueryCache } from './cache';
+import type { InvitationQueryKey } from './cache';
+import { toVortexApiError, VortexAbortError, VortexAuthError, VortexNetworkError, VortexRouteError } from './errors';
+import type { VortexApiError, VortexValidationError } from './errors';
+import { CrossTabChannel } from './crossTab';
+import type { CrossTabMessage } from './crossTab';
+import { PERSISTED_TOKENS_KEY, parsePersistedTokens } from './persistence';
+import type { PersistedToken } from './persistence';
+import { createVortexRequest, sendVortexRequest, unwrapVortexResponse } from './transport';
+import { serializeInvitationListOptions, toInvitationPage } from './pagination';
+import { createFetchSseTransport } from './realtime';
+import { runBulkInvitationOperation } from './bulk';
+import { abortableDelay, raceAbortSignal, throwIfAborted } from './abort';
+import { checkInvitationResponse } from './validation';
+import { diagnoseVortexRoutes } from './diagnostics';
+import type {
+  VortexConfig,
+  AuthenticatedUser,
+  InvitationTarget,
+  InvitationResult,
+  InvitationListOptions,
+  GetInvitationsByGroup,
+  GetInvitationsByTarget,
+  JwtContext,
+  JwtTokenState,
+  VortexTokenPersistence,
+  InvitationEvent,
+  BulkInvitationOptions,
+  BulkInvitationResult,
+  VortexCallOptions,
+  VortexRealtimeConnection,
+  VortexRealtimeTransport,
+  VortexRequestLogEntry,
+} from './types';
+
+/**
+ * Token registry of a client
+ * Tokens are tracked per JwtContext; activeKey points at the token last requested via refreshJwt
+ */
+export interface VortexClientState {
+  tokens: Record<string, JwtTokenState>;
+  activeKey: string | null;
+}
+
+export interface VortexClientOptions {
+  // Server-provided token (and user) so the client starts authenticated
+  initialJwt?: string;
+  initialUser?: AuthenticatedUser;
+  initialJwtContext?: JwtContext;
+}
+
+type VortexAction =
+  | { type: 'REFRESH_START'; payload: { key: string; context?: JwtContext; activate: boolean } }
+  | {
+      type: 'SET_JWT';
+      payload: {
+        key: string;
+        jwt: string;
+        user: AuthenticatedUser | null;
+        expiresAt: number | null;
+        context?: JwtContext;
+        activate?: boolean;
+      };
+    }
+  | { type: 'SET_ERROR'; payload: { key: string; error: VortexApiError | null } }
+  | { type: 'CLEAR_AUTH' }
+  | { type: 'INCREMENT_RETRY'; payload: { key: string; delayMs: number } }
+  | { type: 'RESET_RETRY'; payload: { key: string } };
+
+// Body of list routes; paginated requests also carry the cursor of the next page
+interface InvitationListResponse {
+  invitations: InvitationResult[];
+  nextCursor?: string | null;
+  totalCount?: number;
+}
+
+// Pending refresh of a token; the timer is dropped while the tab is hidden but dueAt is kept
+interface RefreshSchedule {
+  dueAt: number;
+  context?: JwtContext;
+  timer: ReturnType<typeof setTimeout> | null;
+  deferred?: boolean; // Follower tab waiting for the leader to share a fresh token
+}
+
+// Refresh of a token announced by another tab
+interface RemoteRefresh {
+  promise: Promise<boolean>; // Resolves true once the token arrives, false if the other tab failed or timed out
+  resolve: (received: boolean) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_DELAY_MS = 2147483647;
+const MIN_REFRESH_DELAY_MS = 5000;
+// How long a follower tab waits for the leader (or the tab that announced a refresh) before refreshing itself
+const CROSS_TAB_GRACE_MS = 10000;
+
+const emptyToken: JwtTokenState = {
+  jwt: null,
+  user: null,
+  expiresAt: null,
+  isLoading: false,
+  error: null,
+  retryCount: 0,
+  retryDelayMs: 0,
+};
+
+function updateToken(state: VortexClientState, key: string, patch: Partial<JwtTokenState>): VortexClientState {
+  return {
+    ...state,
+    tokens: { ...state.tokens, [key]: { ...(state.tokens[key] || emptyToken), ...patch } },
+  };
+}
+
+function vortexReducer(state: VortexClientState, action: VortexAction): VortexClientState {
+  switch (action.type) {
+    case 'REFRESH_START': {
+      const next = updateToken(state, action.payload.key, { context: action.payload.context, isLoading: true });
+      return action.payload.activate ? { ...next, activeKey: action.payload.key } : next;
+    }
+    case 'SET_JWT': {
+      const next = updateToken(state, action.payload.key, {
+        ...(action.payload.context ? { context: action.payload.context } : {}),
+        jwt: action.payload.jwt,
+        user: action.payload.user,
+        expiresAt: action.payload.expiresAt,
+        isLoading: false,
+        error: null,
+        retryCount: 0,
+        retryDelayMs: 0,
+      });
+      return action.payload.activate ? { ...next, activeKey: action.payload.key } : next;
+    }
+    case 'SET_ERROR':
+      return updateToken(state, action.payload.key, { error: action.payload.error, isLoading: false });
+    case 'CLEAR_AUTH':
+      return { tokens: {}, activeKey: null };
+    case 'INCREMENT_RETRY': {
+      const token = state.tokens[action.payload.key] || emptyToken;
+      return updateToken(state, action.payload.key, {
+        retryCount: token.retryCount + 1,
+        retryDelayMs: action.payload.delayMs,
+      });
+    }
+    case 'RESET_RETRY':
+      return updateToken(state, action.payload.key, { retryCount: 0, retryDelayMs: 0 });
+    default:
+      return state;
+  }
+}
+
+// Decode JWT to extract user info (basic extraction - in production you might want a proper JWT library)
+function decodeJwtUser(jwt: string, config: VortexConfig): AuthenticatedUser | null {
+  try {
+    const claims = decodeVortexJwt<Partial<AuthenticatedUser>>(jwt);
+    const user: AuthenticatedUser = {
+      userId: claims.userId ?? claims.sub!,
+      userEmail: claims.userEmail,
+      adminScopes: claims.adminScopes,
+      // Legacy fields for backward compatibility
+      identifiers: claims.identifiers,
+      groups: claims.groups || config.defaultGroups,
+      role: claims.role,
+    };
+    return config.mapClaimsToUser ? config.mapClaimsToUser(claims, user) : user;
+  } catch (decodeError) {
+    console.warn('Could not decode JWT payload:', decodeError);
+    return null;
+  }
+}
+
+function safeJwtExpiry(jwt: string): number | null {
+  try {
+    return getJwtExpiry(jwt);
+  } catch {
+    return null;
+  }
+}
+
+function isDocumentHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
+
+function readPersistence(persistence: VortexTokenPersistence): string | null | Promise<string | null> {
+  try {
+    return persistence.get(PERSISTED_TOKENS_KEY);
+  } catch {
+    return null;
+  }
+}
+
+// Persistence is best-effort: adapter failures never break authentication
+function runPersistence(operation: () => void | Promise<void>): void {
+  try {
+    Promise.resolve(operation()).catch(() => {});
+  } catch {
+    // Ignore synchronous adapter failures
+  }
+}
+
+const defaultSseTransport = createFetchSseTransport();
+
+// Resolved realtime settings, or null when disabled
+function getRealtimeSettings(config: VortexConfig): { path: string; transport: VortexRealtimeTransport } | null {
+  if (!config.realtime) return null;
+
+  const options = typeof config.realtime === 'object' ? config.realtime : {};
+  return { path: options.path || '/events', transport: options.transport || defaultSseTransport };
+}
+
+// Inline realtime options must not reconnect the stream on every render
+function isSameRealtimeSettings(a: VortexConfig, b: VortexConfig): boolean {
+  const first = getRealtimeSettings(a);
+  const second = getRealtimeSettings(b);
+  return first === second || (!!first && !!second && first.path === second.path && first.transport === second.transport);
+}
+
+function getFulfilledIds(results: BulkInvitationResult<unknown>[]): string[] {
+  return results.filter(result => result.status === 'fulfilled').map(result => result.invitationId);
+}
+
+/**
+ * Applies the provider defaults to a configuration
+ */
+export function resolveVortexConfig(config: VortexConfig = {}): VortexConfig {
+  return {
+    apiBaseUrl: '/api/vortex',
+    refreshJwtInterval: 30 * 60 * 1000, // 30 minutes (used when the token has no exp claim)
+    refreshSkewMs: 60 * 1000, // Refresh 1 minute before expiry
+    pauseRefreshWhenHidden: true,
+    ...config,
+    jwtBackoff: {
+      initialDelayMs: 1000,
+      maxDelayMs: 60000,
+      multiplier: 2,
+      maxRetries: 5,
+      ...config.jwtBackoff,
+    },
+    retry: {
+      initialDelayMs: 1000,
+      maxDelayMs: 30000,
+      multiplier: 2,
+      maxRetries: 0,
+      ...config.retry,
+    },
+  };
+}
+
+// Exponential backoff delay before retry number `attempt + 1`
+function getBackoffDelay(backoff: NonNullable<VortexConfig['jwtBackoff']>, attempt: number): number {
+  return Math.min(backoff.initialDelayMs! * Math.pow(backoff.multiplier!, attempt), backoff.maxDelayMs!);
+}
+
+/**
+ * Framework-agnostic Vortex client
+ * Owns configuration, the JWT registry and its refresh scheduling, the invitation cache and every
+ * invitation method. UI layers observe it through subscribe/getState; VortexProvider is a thin
+ * React adapter over it.
+ */
+export class VortexClient {
+  readonly cache: InvitationQueryCache;
+  private rawConfig: VortexConfig;
+  private config: VortexConfig;
+  private state: VortexClientState;
+  private listeners = new Set<() => void>();
+  // Independent refresh/backoff schedule and in-flight request for each token
+  private schedules = new Map<string, RefreshSchedule>();
+  // Resolves with the refresh error, or null once a token was obtained
+  private inFlight = new Map<string, Promise<VortexApiError | null>>();
+  // Single-flight JWT refresh shared by every request rejected with 401 while it runs
+  private authRecovery: Promise<boolean> | null = null;
+  // Cross-tab coordination (only set while started with config.crossTab enabled)
+  private crossTab: CrossTabChannel | null = null;
+  private remoteRefreshes = new Map<string, RemoteRefresh>();
+  // Mirror of the persisted token record (only used when config.persistence is set)
+  private persisted: Record<string, PersistedToken> = {};
+  private started = false;
+  private stopped = false;
+  private cancelRehydration: (() => void) | null = null;
+  private routesDiagnosed = false;
+  // Realtime invitation events (only connected while started with config.realtime enabled)
+  private eventListeners = new Set<(event: InvitationEvent) => void>();
+  private realtimeConnection: VortexRealtimeConnection | null = null;
+  private realtimeTimer: ReturnType<typeof setTimeout> | null = null;
+  private realtimeRetryCount = 0;
+  private realtimeAttempt = 0; // Ignores callbacks of connections that were replaced or closed
+  private realtimeJwt: string | null = null; // Token the stream was last opened with
+  // Request observers; entries are only built while someone listens
+  private requestListeners = new Set<(entry: VortexRequestLogEntry) => void>();
+  private requestCount = 0;
+
+  constructor(config: VortexConfig = {}, options: VortexClientOptions = {}) {
+    this.rawConfig = config;
+    this.config = resolveVortexConfig(config);
+    // Validate API configuration in development
+    validateVortexApiConfiguration(this.config.apiBaseUrl!, this.config.backendApiUrl);
+
+    this.state = this.createInitialState(options);
+    this.cache = new InvitationQueryCache({
+      staleTimeMs: config.cache?.staleTimeMs,
+      gcTimeMs: config.cache?.gcTimeMs,
+      queryFn: (key, options) => this.fetchQuery(key, options),
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Configuration and state
+  // ---------------------------------------------------------------------------
+
+  getConfig(): VortexConfig {
+    return this.config;
+  }
+
+  /**
+   * Replaces the configuration (cache options only apply at construction)
+   */
+  setConfig(config: VortexConfig): void {
+    if (config === this.rawConfig) return;
+
+    const previous = this.config;
+    this.rawConfig = config;
+    this.config = resolveVortexConfig(config);
+    validateVortexApiConfiguration(this.config.apiBaseUrl!, this.config.backendApiUrl);
+
+    if (this.started && JSON.stringify(previous.crossTab) !== JSON.stringify(this.config.crossTab)) {
+      this.closeCrossTab();
+      this.openCrossTab();
+    }
+    if (this.started && !isSameRealtimeSettings(previous, this.config)) {
+      this.closeRealtime();
+      this.openRealtime();
+    }
+  }
+
+  getState = (): VortexClientState => this.state;
+
+  /**
+   * The token last requested through refreshJwt (backs the top-level jwt/user)
+   */
+  getActiveToken(): JwtTokenState | undefined {
+    return this.state.activeKey ? this.state.tokens[this.state.activeKey] : undefined;
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private dispatch(action: VortexAction): void {
+    this.state = vortexReducer(this.state, action);
+    this.syncRealtime();
+    this.listeners.forEach(listener => listener());
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Attaches browser listeners (visibility, network, cross-tab), rehydrates persisted tokens and
+   * schedules refreshes of tokens the client started with. Safe to call again after stop().
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.stopped = false;
+
+    Object.keys(this.state.tokens).forEach(key => {
+      const token = this.state.tokens[key];
+      if (token.jwt && !this.schedules.has(key)) {
+        this.scheduleNextRefresh(key, token.context, token.expiresAt);
+      }
+    });
+
+    if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+      window.addEventListener('online', this.resumeSchedules);
+    }
+
+    this.openCrossTab();
+    this.openRealtime();
+    this.diagnoseRoutes();
+    this.rehydratePersistence();
+  }
+
+  /**
+   * Detaches listeners and cancels every timer (tokens and cached data are kept)
+   */
+  stop(): void {
+    this.started = false;
+    this.stopped = true;
+
+    if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+      window.removeEventListener('online', this.resumeSchedules);
+    }
+
+    this.closeCrossTab();
+    this.closeRealtime();
+    this.cancelRehydration?.();
+    this.cancelRehydration = null;
+    this.schedules.forEach(schedule => {
+      if (schedule.timer) clearTimeout(schedule.timer);
+    });
+    this.schedules.clear();
+  }
+
+  // Runs diagnoseVortexRoutes once per client (development only) and reports every unhealthy route
+  private diagnoseRoutes(): void {
+    if (!this.config.diagnoseRoutes || this.routesDiagnosed || process.env.NODE_ENV !== 'development') return;
+    this.routesDiagnosed = true;
+
+    diagnoseVortexRoutes(this.config, { jwt: this.getActiveToken()?.jwt ?? undefined }).then(reports => {
+      reports.forEach(report => {
+        if (report.status !== 'reachable') this.config.onError?.(new VortexRouteError(report));
+      });
+    }, error => {
+      console.warn('Vortex route diagnostics failed', error);
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // API calls
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Makes an API call through the configured transport and interceptors
+   */
+  request = <T = unknown>(
+    endpoint: string,
+    options: RequestInit & VortexCallOptions = {},
+    useBackendUrl: boolean = false
+  ): Promise<T> => {
+    return this.send<T>(endpoint, options, useBackendUrl, { report: true, recoverAuth: !useBackendUrl });
+  };
+
+  // Sends a request with the GET retry policy; a 401 triggers one JWT refresh and a single replay
+  private async send<T>(
+    endpoint: string,
+    options: RequestInit & VortexCallOptions,
+    useBackendUrl: boolean,
+    flags: { report: boolean; recoverAuth: boolean }
+  ): Promise<T> {
+    const config = this.config;
+    const { signal, timeoutMs, ...init } = options;
+    const jwt = this.getActiveToken()?.jwt ?? null;
+    try {
+      // Use backendApiUrl for backend-specific calls (like JWT), otherwise use apiBaseUrl
+      const baseUrl = useBackendUrl && config.backendApiUrl
+        ? config.backendApiUrl
+        : config.apiBaseUrl!;
+      const retry = config.retry!;
+      const idempotent = (init.method || 'GET').toUpperCase() === 'GET';
+
+      for (let attempt = 0; ; attempt++) {
+        const startedAt = Date.now();
+        const log = { endpoint, init, useBackendUrl, attempt, startedAt };
+        try {
+          const response = await sendVortexRequest(
+            createVortexRequest(baseUrl, endpoint, init),
+            config,
+            { jwt, config },
+            { signal: signal ?? undefined, timeoutMs }
+          );
+          this.logRequest(log, response.status, null);
+          return unwrapVortexResponse<T>(response);
+        } catch (error) {
+          const err = toVortexApiError(error, 'Unknown error occurred');
+          this.logRequest(log, err.status ?? null, err);
+          if (!idempotent || !err.retryable || attempt >= retry.maxRetries!) throw err;
+          await abortableDelay(getBackoffDelay(retry, attempt), signal ?? undefined);
+        }
+      }
+    } catch (error) {
+      const err = toVortexApiError(error, 'Unknown error occurred');
+
+      if (flags.recoverAuth && config.refreshOnUnauthorized !== false && err instanceof VortexAuthError && err.status === 401) {
+        if (await this.recoverAuth(jwt, err)) {
+          return this.send<T>(endpoint, options, useBackendUrl, { ...flags, recoverAuth: false });
+        }
+        // The failed recovery already reported one auth error for every request waiting on it
+        throw err;
+      }
+      // Cancellation was requested by the caller, so it is not reported as a failure
+      if (flags.report && !(err instanceof VortexAbortError)) config.onError?.(err);
+      throw err;
+    }
+  }
+
+  /**
+   * Observes every HTTP attempt (retries and 401 replays included) once it settles
+   */
+  subscribeToRequests = (listener: (entry: VortexRequestLogEntry) => void): (() => void) => {
+    this.requestListeners.add(listener);
+    return () => {
+      this.requestListeners.delete(listener);
+    };
+  };
+
+  private logRequest(
+    log: { endpoint: string; init: Omit<RequestInit, 'signal'>; useBackendUrl: boolean; attempt: number; startedAt: number },
+    status: number | null,
+    error: VortexApiError | null
+  ): void {
+    if (this.requestListeners.size === 0) return;
+    const { endpoint, init, useBackendUrl } = log;
+    const entry: VortexRequestLogEntry = {
+      id: ++this.requestCount,
+      method: (init.method || 'GET').toUpperCase(),
+      endpoint,
+      backend: useBackendUrl,
+      attempt: log.attempt,
+      startedAt: log.startedAt,
+      durationMs: Date.now() - log.startedAt,
+      status,
+      error,
+      replay: () => this.request(endpoint, init, useBackendUrl),
+    };
+    this.requestListeners.forEach(listener => listener(entry));
+  }
+
+  // Refreshes the active token (with its last JwtContext) once for every request rejected with 401 in the meantime
+  private recoverAuth(failedJwt: string | null, error: VortexAuthError): Promise<boolean> {
+    const current = this.getActiveToken()?.jwt ?? null;
+    // The token was already replaced after the request was sent
+    if (current && current !== failedJwt) return Promise.resolve(true);
+
+    if (!this.authRecovery) {
+      // Without a token yet, the unscoped token is requested
+      const key = this.state.activeKey ?? getJwtContextKey(undefined);
+      const context = this.state.tokens[key]?.context;
+      this.authRecovery = this.refreshToken(key, context, true, undefined, true).then(refreshError => {
+        this.authRecovery = null;
+        const jwt = this.getActiveToken()?.jwt ?? null;
+        if (!refreshError && jwt && jwt !== failedJwt) return true;
+
+        this.config.onError?.(error);
+        return false;
+      });
+    }
+    return this.authRecovery;
+  }
+
+  private async fetchQuery(key: InvitationQueryKey, options: VortexCallOptions): Promise<unknown> {
+    switch (key.kind) {
+      case 'group': {
+        const query = key.list ? `?${serializeInvitationListOptions(key.list)}` : '';
+        const endpoint = `/invitations/by-group/${encodeURIComponent(key.groupType)}/${encodeURIComponent(key.groupId)}${query}`;
+        const response = await this.request<InvitationListResponse>(endpoint, options);
+        return this.checkResponse(key.list ? toInvitationPage(response) : response.invitations, 'list', endpoint);
+      }
+      case 'target': {
+        const query = key.list ? `&${serializeInvitationListOptions(key.list)}` : '';
+        const endpoint = `/invitations?targetType=${encodeURIComponent(key.targetType)}&targetValue=${encodeURIComponent(key.targetValue)}${query}`;
+        const response = await this.request<InvitationListResponse>(endpoint, options);
+        return this.checkResponse(key.list ? toInvitationPage(response) : response.invitations, 'list', endpoint);
+      }
+      case 'invitation': {
+        const endpoint = `/invitations/${encodeURIComponent(key.invitationId)}`;
+        return this.checkResponse(await this.request<InvitationResult>(endpoint, options), 'invitation', endpoint);
+      }
+    }
+  }
+
+  // Applies config.validation to invitation data; strict-mode failures are reported like request errors
+  private checkResponse<T>(data: T, shape: 'invitation' | 'list', endpoint: string, method: string = 'GET'): T {
+    try {
+      return checkInvitationResponse(data, shape, this.config, { endpoint, method });
+    } catch (error) {
+      this.config.onError?.(error as VortexValidationError);
+      throw error;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // JWT management
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Aborting `signal` only stops this call from waiting; a refresh shared with other callers keeps going
+   */
+  refreshJwt = async (context?: JwtContext, options: VortexCallOptions = {}): Promise<void> => {
+    throwIfAborted(options.signal);
+    await raceAbortSignal(this.refreshToken(getJwtContextKey(context), context, true, options.timeoutMs), options.signal);
+  };
+
+  /**
+   * Refreshes the token for a context without making it the top-level token
+   */
+  refreshScopedJwt = async (context: JwtContext, options: VortexCallOptions = {}): Promise<void> => {
+    throwIfAborted(options.signal);
+    await raceAbortSignal(this.refreshToken(getJwtContextKey(context), context, false, options.timeoutMs), options.signal);
+  };
+
+  clearAuth = (): void => {
+    this.clearLocalAuth();
+    this.crossTab?.post({ type: 'clear' });
+  };
+
+  // Single-flight per token: concurrent refreshes of the same token share one request, and when another
+  // tab has announced a refresh of it we wait for that tab to share the result instead of fetching
+  private refreshToken(
+    key: string,
+    context?: JwtContext,
+    activate: boolean = false,
+    timeoutMs?: number,
+    silent: boolean = false
+  ): Promise<VortexApiError | null> {
+    this.dispatch({ type: 'REFRESH_START', payload: { key, context, activate } });
+
+    const inFlight = this.inFlight.get(key);
+    if (inFlight) return inFlight;
+
+    const remote = this.remoteRefreshes.get(key);
+    const promise = (remote ? remote.promise : Promise.resolve(false))
+      .then(received => {
+        if (received) return null;
+        this.crossTab?.post({ type: 'refresh-start', key });
+        // fetchToken never rejects: failures are handled by the backoff logic
+        return this.fetchToken(key, context, timeoutMs, silent);
+      })
+      .then(error => {
+        this.inFlight.delete(key);
+        return error;
+      });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  // JWT fetch with exponential backoff, tracked independently per token
+  // Resolves with the error when the refresh failed; `silent` keeps it from onError (the caller reports instead)
+  private async fetchToken(
+    key: string,
+    context?: JwtContext,
+    timeoutMs?: number,
+    silent: boolean = false
+  ): Promise<VortexApiError | null> {
+    const config = this.config;
+    try {
+      const response = await this.send<{ jwt: string }>('/jwt', {
+        method: 'POST',
+        body: context ? JSON.stringify({ context }) : undefined,
+        timeoutMs,
+      }, true, { report: !silent, recoverAuth: false }); // Use backend URL for JWT calls
+
+      const user = decodeJwtUser(response.jwt, config);
+
+      this.applyToken(key, context, response.jwt, user);
+      this.crossTab?.post({
+        type: 'token',
+        key,
+        context,
+        jwt: response.jwt,
+        user,
+        active: this.state.activeKey === key,
+      });
+      return null;
+    } catch (error) {
+      const err = toVortexApiError(error, 'Failed to refresh JWT');
+      this.crossTab?.post({ type: 'refresh-failed', key });
+
+      // Implement exponential backoff
+      const backoffConfig = config.jwtBackoff!;
+      const maxRetries = backoffConfig.maxRetries!;
+      const retryCount = (this.state.tokens[key] || emptyToken).retryCount;
+
+      if (retryCount < maxRetries) {
+        const nextDelay = getBackoffDelay(backoffConfig, retryCount);
+
+        this.dispatch({ type: 'INCREMENT_RETRY', payload: { key, delayMs: nextDelay } });
+
+        console.warn(
+          `JWT refresh failed (attempt ${retryCount + 1}/${maxRetries}). ` +
+          `Retrying in ${nextDelay}ms...`,
+          err
+        );
+
+        // Schedule retry with backoff
+        this.scheduleRefresh(key, context, Date.now() + nextDelay);
+      } else {
+        // Max retries exceeded
+        console.error(
+          `JWT refresh failed after ${maxRetries} attempts. Giving up.`,
+          err
+        );
+        this.dispatch({ type: 'SET_ERROR', payload: { key, error: err } });
+        this.dispatch({ type: 'RESET_RETRY', payload: { key } });
+        this.forgetPersistedToken(key);
+      }
+      return err;
+    }
+  }
+
+  // Stores a fresh token (fetched here, shared by another tab or rehydrated) and schedules its next refresh
+  private applyToken(
+    key: string,
+    context: JwtContext | undefined,
+    jwt: string,
+    user: AuthenticatedUser | null,
+    activate: boolean = false
+  ): void {
+    const expiresAt = safeJwtExpiry(jwt);
+
+    this.dispatch({ type: 'SET_JWT', payload: { key, jwt, user, expiresAt, context, activate } });
+    this.config.onJwtRefresh?.(jwt);
+
+    if (this.config.persistence) {
+      this.persisted = {
+        ...this.persisted,
+        [key]: { jwt, context, active: this.state.activeKey === key },
+      };
+      this.writePersistedTokens();
+    }
+
+    this.scheduleNextRefresh(key, context, expiresAt);
+  }
+
+  private clearLocalAuth(): void {
+    this.schedules.forEach(schedule => {
+      if (schedule.timer) clearTimeout(schedule.timer);
+    });
+    this.schedules.clear();
+    this.dispatch({ type: 'CLEAR_AUTH' });
+
+    this.persisted = {};
+    this.writePersistedTokens();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Refresh scheduling
+  // ---------------------------------------------------------------------------
+
+  private cancelRefresh(key: string): void {
+    const schedule = this.schedules.get(key);
+    if (schedule) {
+      if (schedule.timer) clearTimeout(schedule.timer);
+      this.schedules.delete(key);
+    }
+  }
+
+  // Arms the timer for a schedule unless refresh is paused for a hidden tab
+  private armSchedule(key: string, schedule: RefreshSchedule): void {
+    if (schedule.timer) clearTimeout(schedule.timer);
+    schedule.timer = null;
+    if (this.config.pauseRefreshWhenHidden && isDocumentHidden()) return;
+
+    schedule.timer = setTimeout(
+      () => this.runSchedule(key, schedule),
+      Math.min(Math.max(schedule.dueAt - Date.now(), 0), MAX_TIMER_DELAY_MS)
+    );
+  }
+
+  private scheduleRefresh(key: string, context: JwtContext | undefined, dueAt: number): void {
+    this.cancelRefresh(key);
+    // A stopped client (e.g., unmounted provider) must not leave timers behind
+    if (this.stopped) return;
+
+    const schedule: RefreshSchedule = { dueAt, context, timer: null };
+    this.schedules.set(key, schedule);
+    this.armSchedule(key, schedule);
+  }
+
+  // Schedule next refresh of a token from its expiry (minus skew), falling back to the fixed interval
+  private scheduleNextRefresh(key: string, context: JwtContext | undefined, expiresAt: number | null): void {
+    this.cancelRefresh(key);
+    if (!this.config.refreshJwtInterval) return;
+
+    const now = Date.now();
+    const dueAt = expiresAt !== null
+      // Short-lived tokens refresh at half their remaining lifetime, never in a tight loop
+      ? Math.max(expiresAt - this.config.refreshSkewMs!, now + (expiresAt - now) / 2, now + MIN_REFRESH_DELAY_MS)
+      : now + this.config.refreshJwtInterval;
+    this.scheduleRefresh(key, context, dueAt);
+  }
+
+  // Runs a due refresh; follower tabs leave it to the leader and only step in if no token arrives in time
+  private runSchedule(key: string, schedule: RefreshSchedule): void {
+    if (schedule.timer) clearTimeout(schedule.timer);
+    this.schedules.delete(key);
+
+    if (this.crossTab && !schedule.deferred && !this.crossTab.isLeader()) {
+      const deferred: RefreshSchedule = {
+        dueAt: Date.now() + CROSS_TAB_GRACE_MS,
+        context: schedule.context,
+        timer: null,
+        deferred: true,
+      };
+      this.schedules.set(key, deferred);
+      this.armSchedule(key, deferred);
+      return;
+    }
+
+    this.refreshToken(key, schedule.context);
+  }
+
+  // When the tab becomes visible or the browser comes back online, refresh tokens that went stale
+  // right away and re-arm the others
+  private resumeSchedules = (): void => {
+    if (isDocumentHidden()) return;
+    this.schedules.forEach((schedule, key) => {
+      if (schedule.dueAt <= Date.now()) {
+        this.runSchedule(key, schedule);
+      } else {
+        this.armSchedule(key, schedule);
+      }
+    });
+  };
+
+  // Pause refresh timers while the tab is hidden
+  private handleVisibilityChange = (): void => {
+    if (!isDocumentHidden()) {
+      this.resumeSchedules();
+    } else if (this.config.pauseRefreshWhenHidden) {
+      this.schedules.forEach(schedule => {
+        if (schedule.timer) clearTimeout(schedule.timer);
+        schedule.timer = null;
+      });
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Cross-tab coordination
+  // ---------------------------------------------------------------------------
+
+  private openCrossTab(): void {
+    const crossTabConfig = this.config.crossTab;
+    if (!crossTabConfig) return;
+
+    const options = typeof crossTabConfig === 'object' ? crossTabConfig : {};
+    this.crossTab = new CrossTabChannel({
+      channelName: options.channelName || 'vortex-auth',
+      heartbeatMs: options.heartbeatMs,
+      onMessage: message => this.handleCrossTabMessage(message),
+    });
+  }
+
+  private closeCrossTab(): void {
+    if (!this.crossTab) return;
+
+    this.crossTab.close();
+    this.crossTab = null;
+    this.remoteRefreshes.forEach(remote => {
+      clearTimeout(remote.timer);
+      remote.resolve(false);
+    });
+    this.remoteRefreshes.clear();
+  }
+
+  private settleRemoteRefresh(key: string, received: boolean): void {
+    const remote = this.remoteRefreshes.get(key);
+    if (remote) {
+      clearTimeout(remote.timer);
+      this.remoteRefreshes.delete(key);
+      remote.resolve(received);
+    }
+  }
+
+  // Messages from other tabs: shared tokens, announced refreshes and logouts
+  private handleCrossTabMessage(message: CrossTabMessage): void {
+    switch (message.type) {
+      case 'refresh-start': {
+        if (this.remoteRefreshes.has(message.key)) return;
+        let resolve: (received: boolean) => void = () => {};
+        const promise = new Promise<boolean>(r => (resolve = r));
+        const timer = setTimeout(() => this.settleRemoteRefresh(message.key, false), CROSS_TAB_GRACE_MS);
+        this.remoteRefreshes.set(message.key, { promise, resolve, timer });
+        return;
+      }
+      case 'refresh-failed':
+        this.settleRemoteRefresh(message.key, false);
+        return;
+      case 'token': {
+        // Adopt the sender's top-level token when this tab has not picked one yet
+        const activate = message.active && !this.state.activeKey;
+        this.applyToken(message.key, message.context, message.jwt, message.user, activate);
+        this.settleRemoteRefresh(message.key, true);
+        return;
+      }
+      case 'clear':
+        this.clearLocalAuth();
+        return;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Realtime invitation events
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Listens to invitation events from the realtime stream (after they are applied to the cache)
+   */
+  subscribeToInvitationEvents = (listener: (event: InvitationEvent) => void): (() => void) => {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  };
+
+  // Waits for a token: the stream opens (or reopens with a fresh backoff) whenever the active token changes
+  private openRealtime(): void {
+    const settings = getRealtimeSettings(this.config);
+    const jwt = this.getActiveToken()?.jwt ?? null;
+    this.realtimeJwt = jwt;
+    if (!settings || !jwt) return;
+
+    const attempt = ++this.realtimeAttempt;
+    const isCurrent = () => attempt === this.realtimeAttempt;
+    try {
+      this.realtimeConnection = settings.transport.connect({
+        url: `${this.config.apiBaseUrl}${settings.path}`,
+        // Every (re)connect uses the token current at that time
+        jwt,
+        onOpen: () => {
+          if (isCurrent()) this.realtimeRetryCount = 0;
+        },
+        onEvent: event => {
+          if (isCurrent()) this.applyInvitationEvent(event);
+        },
+        onError: error => {
+          if (isCurrent()) this.reconnectRealtime(error);
+        },
+      });
+    } catch (error) {
+      this.reconnectRealtime(error);
+    }
+  }
+
+  private syncRealtime(): void {
+    if (!this.started || !this.config.realtime || (this.getActiveToken()?.jwt ?? null) === this.realtimeJwt) return;
+    this.closeRealtime();
+    this.openRealtime();
+  }
+
+  private closeRealtime(): void {
+    this.realtimeAttempt++;
+    if (this.realtimeTimer) clearTimeout(this.realtimeTimer);
+    this.realtimeTimer = null;
+    this.realtimeConnection?.close();
+    this.realtimeConnection = null;
+    this.realtimeRetryCount = 0;
+  }
+
+  // Reconnects with the same exponential backoff as JWT refreshes
+  private reconnectRealtime(error: unknown): void {
+    this.realtimeAttempt++;
+    this.realtimeConnection?.close();
+    this.realtimeConnection = null;
+
+    const backoffConfig = this.config.jwtBackoff!;
+    const retryCount = this.realtimeRetryCount;
+    if (retryCount >= backoffConfig.maxRetries!) {
+      this.config.onError?.(new VortexNetworkError('Realtime connection failed', {
+        endpoint: getRealtimeSettings(this.config)?.path,
+        cause: error,
+      }));
+      return;
+    }
+
+    const delay = getBackoffDelay(backoffConfig, retryCount);
+    this.realtimeRetryCount = retryCount + 1;
+    this.realtimeTimer = setTimeout(() => {
+      this.realtimeTimer = null;
+      this.openRealtime();
+    }, delay);
+  }
+
+  private applyInvitationEvent(event: InvitationEvent): void {
+    this.cache.patchInvitations([event.invitationId], () => event.changes);
+    this.eventListeners.forEach(listener => listener(event));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Persistence
+  // ---------------------------------------------------------------------------
+
+  // Builds the first state from the initial token, and from synchronously persisted tokens with rehydrateBeforeFirstRender
+  private createInitialState(options: VortexClientOptions): VortexClientState {
+    const config = this.config;
+    const state: VortexClientState = { tokens: {}, activeKey: null };
+
+    const raw = config.persistence && config.rehydrateBeforeFirstRender ? readPersistence(config.persistence) : null;
+    // Otherwise adapters are read in start(), so server HTML and the first client render match
+    if (typeof raw === 'string') {
+      this.persisted = parsePersistedTokens(raw);
+      Object.keys(this.persisted).forEach(key => {
+        const { jwt, context, active } = this.persisted[key];
+        state.tokens[key] = {
+          ...emptyToken,
+          context,
+          jwt,
+          user: decodeJwtUser(jwt, config),
+          expiresAt: safeJwtExpiry(jwt),
+        };
+        if (active) state.activeKey = key;
+      });
+    }
+
+    // The server-provided token wins over a persisted one
+    if (options.initialJwt) {
+      const key = getJwtContextKey(options.initialJwtContext);
+      state.tokens[key] = {
+        ...emptyToken,
+        context: options.initialJwtContext,
+        jwt: options.initialJwt,
+        user: options.initialUser ?? decodeJwtUser(options.initialJwt, config),
+        expiresAt: safeJwtExpiry(options.initialJwt),
+      };
+      state.activeKey = key;
+    }
+
+    return state;
+  }
+
+  // Rehydrates persisted tokens once started (async adapters resolve later); expired tokens are never rehydrated
+  private rehydratePersistence(): void {
+    const persistence = this.config.persistence;
+    if (!persistence) return;
+
+    const raw = readPersistence(persistence);
+    if (raw === null) return;
+
+    const apply = (value: string | null) => {
+      const persisted = parsePersistedTokens(value);
+      Object.keys(persisted).forEach(key => {
+        // A token fetched meanwhile (or provided by the server) wins over the persisted one
+        if (this.state.tokens[key]?.jwt || this.inFlight.has(key)) return;
+        const { jwt, context, active } = persisted[key];
+        this.applyToken(key, context, jwt, decodeJwtUser(jwt, this.config), active && !this.state.activeKey);
+      });
+    };
+    if (typeof raw === 'string') {
+      // Already read while constructing with rehydrateBeforeFirstRender
+      if (!this.config.rehydrateBeforeFirstRender) apply(raw);
+      return;
+    }
+
+    let cancelled = false;
+    this.cancelRehydration = () => {
+      cancelled = true;
+    };
+    raw.then(value => {
+      if (!cancelled) apply(value);
+    }).catch(() => {
+      // Unreadable storage: tokens are fetched on demand
+    });
+  }
+
+  private writePersistedTokens(): void {
+    const persistence = this.config.persistence;
+    if (!persistence) return;
+
+    const record = this.persisted;
+    runPersistence(() => Object.keys(record).length > 0
+      ? persistence.set(PERSISTED_TOKENS_KEY, JSON.stringify(record))
+      : persistence.remove(PERSISTED_TOKENS_KEY));
+  }
+
+  private forgetPersistedToken(key: string): void {
+    if (!this.persisted[key]) return;
+    const record = { ...this.persisted };
+    delete record[key];
+    this.persisted = record;
+    this.writePersistedTokens();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Invitation management (queries go through the shared cache)
+  // ---------------------------------------------------------------------------
+
+  getInvitationsByTarget = ((
+    targetType: InvitationTarget['type'],
+    targetValue: string,
+    options?: InvitationListOptions,
+    callOptions?: VortexCallOptions
+  ) => {
+    return this.cache.fetch({ kind: 'target', targetType, targetValue, ...(options ? { list: options } : {}) }, callOptions);
+  }) as GetInvitationsByTarget;
+
+  getInvitation = async (invitationId: string, options?: VortexCallOptions): Promise<InvitationResult> => {
+    return this.cache.fetch<InvitationResult>({ kind: 'invitation', invitationId }, options);
+  };
+
+  revokeInvitation = async (invitationId: string, options?: VortexCallOptions): Promise<void> => {
+    await this.sendRevoke(invitationId, options);
+    this.cache.invalidateInvitations([invitationId]);
+  };
+
+  acceptInvitations = async (
+    invitationIds: string[],
+    target: InvitationTarget,
+    options?: VortexCallOptions
+  ): Promise<InvitationResult> => {
+    const result = this.checkResponse(
+      await this.request<InvitationResult>('/invitations/accept', {
+        method: 'POST',
+        body: JSON.stringify({ invitationIds, target }),
+        ...options,
+      }),
+      'invitation',
+      '/invitations/accept',
+      'POST'
+    );
+    this.cache.invalidateInvitations(invitationIds);
+    this.cache.invalidateTarget(target);
+    return result;
+  };
+
+  getInvitationsByGroup = ((
+    groupType: string,
+    groupId: string,
+    options?: InvitationListOptions,
+    callOptions?: VortexCallOptions
+  ) => {
+    return this.cache.fetch({ kind: 'group', groupType, groupId, ...(options ? { list: options } : {}) }, callOptions);
+  }) as GetInvitationsByGroup;
+
+  deleteInvitationsByGroup = async (
+    groupType: string,
+    groupId: string,
+    options?: VortexCallOptions
+  ): Promise<void> => {
+    await this.request(`/invitations/by-group/${encodeURIComponent(groupType)}/${encodeURIComponent(groupId)}`, {
+      method: 'DELETE',
+      ...options,
+    });
+    this.cache.invalidateGroup(groupType, groupId);
+  };
+
+  reinvite = async (invitationId: string, options?: VortexCallOptions): Promise<InvitationResult> => {
+    const result = await this.sendReinvite(invitationId, options);
+    this.cache.invalidateInvitations([invitationId]);
+    return result;
+  };
+
+  /**
+   * Revokes many invitations with limited concurrency, returning one result per id instead of throwing
+   */
+  bulkRevoke = async (
+    invitationIds: string[],
+    options?: BulkInvitationOptions
+  ): Promise<BulkInvitationResult<void>[]> => {
+    const results = await runBulkInvitationOperation(invitationIds, this.sendRevoke, options, 'Failed to revoke invitation');
+    // Invalidate once so observed lists refetch a single time
+    this.cache.invalidateInvitations(getFulfilledIds(results));
+    return results;
+  };
+
+  /**
+   * Resends many invitations with limited concurrency, returning one result per id instead of throwing
+   */
+  bulkReinvite = async (
+    invitationIds: string[],
+    options?: BulkInvitationOptions
+  ): Promise<BulkInvitationResult<InvitationResult>[]> => {
+    const results = await runBulkInvitationOperation(invitationIds, this.sendReinvite, options, 'Failed to reinvite');
+    this.cache.invalidateInvitations(getFulfilledIds(results));
+    return results;
+  };
+
+  private sendRevoke = async (invitationId: string, options?: VortexCallOptions): Promise<void> => {
+    await this.request(`/invitations/${encodeURIComponent(invitationId)}`, {
+      method: 'DELETE',
+      ...options,
+    });
+  };
+
+  private sendReinvite = async (invitationId: string, options?: VortexCallOptions): Promise<InvitationResult> => {
+    const endpoint = `/invitations/${encodeURIComponent(invitationId)}/reinvite`;
+    const result = await this.request<InvitationResult>(endpoint, { method: 'POST', ...options });
+    return this.checkResponse(result, 'invitation', endpoint, 'POST');
+  };
+}
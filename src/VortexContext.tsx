@@ -5,10 +5,22 @@ import type { VortexContextValue } from './types';
 
 export const VortexContext = createContext<VortexContextValue | null>(null);
 
-export const useVortexContext = () => {
-  const context = useContext(VortexContext);
+// Named providers above the current component, by name (the nearest one wins)
+export const VortexInstancesContext = createContext<Record<string, VortexContextValue>>({});
+
+/**
+ * Context of the nearest unnamed provider, or of the provider with the given name
+ */
+export const useVortexContext = (instance?: string) => {
+  const defaultContext = useContext(VortexContext);
+  const instances = useContext(VortexInstancesContext);
+  const context = instance === undefined ? defaultContext : instances[instance];
   if (!context) {
-    throw new Error('useVortexContext must be used within a VortexProvider');
+    throw new Error(
+      instance === undefined
+        ? 'useVortexContext must be used within a VortexProvider'
+        : `useVortexContext must be used within a VortexProvider named "${instance}"`
+    );
   }
   return context;
-};
\ No newline at end of file
+};
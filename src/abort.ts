@@ -0,0 +1,90 @@
+"use client";
+
+import { VortexAbortError, VortexTimeoutError } from './errors';
+import type { VortexApiError, VortexApiErrorDetails } from './errors';
+
+export function throwIfAborted(signal: AbortSignal | null | undefined): void {
+  if (signal?.aborted) throw new VortexAbortError();
+}
+
+/**
+ * Aborts `controller` when `signal` aborts; returns a function removing the link
+ */
+export function linkAbortSignal(signal: AbortSignal | null | undefined, controller: AbortController): () => void {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    controller.abort();
+    return () => {};
+  }
+  const onAbort = () => controller.abort();
+  signal.addEventListener('abort', onAbort);
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Settles like `promise`, but rejects with a VortexAbortError as soon as `signal` aborts
+ * The underlying work is not cancelled, only the caller stops waiting for it
+ */
+export function raceAbortSignal<T>(promise: Promise<T>, signal: AbortSignal | null | undefined): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new VortexAbortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new VortexAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Resolves after `ms`, or rejects with a VortexAbortError as soon as `signal` aborts
+ */
+export function abortableDelay(ms: number, signal: AbortSignal | null | undefined): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const delay = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, ms);
+  });
+  return raceAbortSignal(delay, signal).finally(() => clearTimeout(timer));
+}
+
+export interface RequestSignal {
+  signal: AbortSignal;
+  // The error explaining why the signal aborted (timeout or caller cancellation)
+  toError: (details: VortexApiErrorDetails) => VortexApiError;
+  dispose: () => void;
+}
+
+/**
+ * Combines the caller's signal with an optional timeout for a single request
+ */
+export function createRequestSignal(signal: AbortSignal | null | undefined, timeoutMs: number | undefined): RequestSignal {
+  const controller = new AbortController();
+  const unlink = linkAbortSignal(signal, controller);
+  let timedOut = false;
+  const timer = timeoutMs && timeoutMs > 0
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : null;
+
+  return {
+    signal: controller.signal,
+    toError: details => timedOut
+      ? new VortexTimeoutError(`Request timed out after ${timeoutMs}ms`, details)
+      : new VortexAbortError(undefined, details),
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      unlink();
+    },
+  };
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { toVortexApiError, VortexAbortError } from './errors';
+import type { BulkInvitationOptions, BulkInvitationProgress, BulkInvitationResult } from './types';
+
+/**
+ * Runs `operation` for every id with at most `concurrency` in flight, never throwing
+ * Results are returned in the order of `invitationIds`; ids not yet started when the signal aborts are
+ * rejected with a VortexAbortError (requests already in flight complete).
+ */
+export async function runBulkInvitationOperation<T>(
+  invitationIds: string[],
+  operation: (invitationId: string) => Promise<T>,
+  options: BulkInvitationOptions = {},
+  fallbackMessage: string = 'Bulk operation failed'
+): Promise<BulkInvitationResult<T>[]> {
+  const { signal, onProgress } = options;
+  const concurrency = Math.max(1, options.concurrency ?? 5);
+  const results: BulkInvitationResult<T>[] = new Array(invitationIds.length);
+  const progress: BulkInvitationProgress = { total: invitationIds.length, completed: 0, succeeded: 0, failed: 0 };
+  let nextIndex = 0;
+
+  const settle = (index: number, result: BulkInvitationResult<T>) => {
+    results[index] = result;
+    progress.completed += 1;
+    if (result.status === 'fulfilled') {
+      progress.succeeded += 1;
+    } else {
+      progress.failed += 1;
+    }
+    onProgress?.({ ...progress }, result);
+  };
+
+  const worker = async () => {
+    while (nextIndex < invitationIds.length) {
+      const index = nextIndex++;
+      const invitationId = invitationIds[index];
+
+      if (signal?.aborted) {
+        settle(index, { invitationId, status: 'rejected', error: new VortexAbortError('Bulk operation cancelled') });
+        continue;
+      }
+
+      try {
+        const value = await operation(invitationId);
+        settle(index, { invitationId, status: 'fulfilled', value });
+      } catch (error) {
+        settle(index, { invitationId, status: 'rejected', error: toVortexApiError(error, fallbackMessage) });
+      }
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(concurrency, invitationIds.length); i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+  return results;
+}
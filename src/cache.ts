@@ -0,0 +1,420 @@
+"use client";
+
+import { VortexAbortError, toVortexApiError } from './errors';
+import type { VortexApiError } from './errors';
+import { getInvitationList, serializeInvitationListOptions } from './pagination';
+import type {
+  DehydratedVortexState,
+  InvitationListOptions,
+  InvitationResult,
+  InvitationTarget,
+  VortexCallOptions,
+} from './types';
+
+/**
+ * Identifies a cached invitation query
+ * List keys with `list` options hold an InvitationPage, without them the whole InvitationResult[]
+ */
+export type InvitationQueryKey =
+  | { kind: 'group'; groupType: string; groupId: string; list?: InvitationListOptions }
+  | { kind: 'target'; targetType: InvitationTarget['type']; targetValue: string; list?: InvitationListOptions }
+  | { kind: 'invitation'; invitationId: string };
+
+export interface InvitationQueryState<T = unknown> {
+  data: T | undefined;
+  error: VortexApiError | null;
+  updatedAt: number;      // Epoch ms of the last successful fetch (0 = never)
+  isFetching: boolean;
+  isInvalidated: boolean; // Marked stale by a mutation
+}
+
+export interface InvitationQueryCacheOptions {
+  // Receives a signal that aborts once every caller waiting for the query has cancelled
+  queryFn: (key: InvitationQueryKey, options: VortexCallOptions) => Promise<unknown>;
+  staleTimeMs?: number;
+  gcTimeMs?: number;
+}
+
+/**
+ * Saved entry states used to roll back optimistic updates
+ */
+export type InvitationQuerySnapshot = { key: InvitationQueryKey; state: InvitationQueryState }[];
+
+interface InFlightQuery {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;  // Callers that can still cancel
+  pinned: boolean;  // A caller without a signal is waiting, so the request is never aborted
+  supersededBy: InFlightQuery | null;  // Started by a forced fetch; callers of this one get its result
+}
+
+interface CacheEntry {
+  key: InvitationQueryKey;
+  state: InvitationQueryState;
+  inFlight: InFlightQuery | null;
+  listeners: Set<() => void>;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const emptyState: InvitationQueryState = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+export function hashQueryKey(key: InvitationQueryKey): string {
+  switch (key.kind) {
+    case 'group':
+      return `group:${key.groupType}:${key.groupId}${hashListOptions(key.list)}`;
+    case 'target':
+      return `target:${key.targetType}:${key.targetValue}${hashListOptions(key.list)}`;
+    case 'invitation':
+      return `invitation:${key.invitationId}`;
+  }
+}
+
+function hashListOptions(list: InvitationListOptions | undefined): string {
+  return list ? `?${serializeInvitationListOptions(list)}` : '';
+}
+
+function listContains(data: unknown, predicate: (invitation: InvitationResult) => boolean): boolean {
+  const invitations = getInvitationList(data);
+  return !!invitations && invitations.some(predicate);
+}
+
+// Applies a change to the invitations of list data, preserving its shape (array or page)
+function mapInvitationList(data: unknown, map: (invitations: InvitationResult[]) => InvitationResult[]): unknown {
+  return Array.isArray(data)
+    ? map(data as InvitationResult[])
+    : { ...(data as object), invitations: map(getInvitationList(data) || []) };
+}
+
+function belongsToGroup(invitation: InvitationResult, groupType: string, groupId: string): boolean {
+  return (invitation.groups || []).some(group => group.type === groupType && group.groupId === groupId);
+}
+
+/**
+ * Shared cache for invitation queries
+ * Deduplicates in-flight requests, serves stale data while revalidating and
+ * refetches queries that are still being observed when they get invalidated
+ */
+export class InvitationQueryCache {
+  private entries = new Map<string, CacheEntry>();
+  private queryFn: (key: InvitationQueryKey, options: VortexCallOptions) => Promise<unknown>;
+  private staleTimeMs: number;
+  private gcTimeMs: number;
+
+  constructor(options: InvitationQueryCacheOptions) {
+    this.queryFn = options.queryFn;
+    this.staleTimeMs = options.staleTimeMs ?? 30 * 1000;
+    this.gcTimeMs = options.gcTimeMs ?? 5 * 60 * 1000;
+  }
+
+  getState<T>(key: InvitationQueryKey): InvitationQueryState<T> {
+    const entry = this.entries.get(hashQueryKey(key));
+    return (entry ? entry.state : emptyState) as InvitationQueryState<T>;
+  }
+
+  isStale(key: InvitationQueryKey): boolean {
+    const state = this.getState(key);
+    return state.updatedAt === 0 || state.isInvalidated || Date.now() - state.updatedAt > this.staleTimeMs;
+  }
+
+  /**
+   * Returns cached data when fresh, otherwise fetches (joining any request already in flight)
+   * `force` supersedes a request in flight, whose response may predate a mutation: it is aborted and its
+   * callers get the new result. Aborting `signal` only rejects this call; the request itself is aborted once
+   * no caller is left waiting. `timeoutMs` applies when this call starts the request.
+   */
+  fetch<T>(key: InvitationQueryKey, options: { force?: boolean } & VortexCallOptions = {}): Promise<T> {
+    const entry = this.ensureEntry(key);
+
+    if (options.signal?.aborted) {
+      return Promise.reject(new VortexAbortError());
+    }
+    if (!entry.inFlight || options.force) {
+      if (!entry.inFlight && !options.force && !this.isStale(key)) {
+        return Promise.resolve(entry.state.data as T);
+      }
+      const previous = entry.inFlight;
+      entry.inFlight = this.startQuery(entry, options.timeoutMs);
+      if (previous) {
+        // Its callers now wait for the new request, so it must outlive them like the old one did
+        entry.inFlight.pinned = previous.pinned || previous.waiters > 0;
+        previous.supersededBy = entry.inFlight;
+        previous.controller.abort();
+      }
+    }
+    return this.waitFor(entry.inFlight, options.signal) as Promise<T>;
+  }
+
+  /**
+   * Subscribes to state changes of a query; unobserved entries are garbage-collected after gcTimeMs
+   */
+  subscribe(key: InvitationQueryKey, listener: () => void): () => void {
+    const entry = this.ensureEntry(key);
+    entry.listeners.add(listener);
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+
+    return () => {
+      entry.listeners.delete(listener);
+      this.scheduleGc(entry);
+    };
+  }
+
+  setData<T>(key: InvitationQueryKey, updater: T | ((previous: T | undefined) => T)): void {
+    const entry = this.ensureEntry(key);
+    const data = typeof updater === 'function'
+      ? (updater as (previous: T | undefined) => T)(entry.state.data as T | undefined)
+      : updater;
+    this.setState(entry, { data, error: null, updatedAt: Date.now(), isInvalidated: false });
+    this.scheduleGc(entry);
+  }
+
+  /**
+   * Updates the data of matching entries in place and returns a snapshot for rollback
+   * Entries without data are left alone
+   */
+  mutate(
+    predicate: (key: InvitationQueryKey, data: unknown) => boolean,
+    updater: (key: InvitationQueryKey, data: unknown) => unknown
+  ): InvitationQuerySnapshot {
+    const snapshot: InvitationQuerySnapshot = [];
+    this.entries.forEach(entry => {
+      if (entry.state.data === undefined || !predicate(entry.key, entry.state.data)) return;
+
+      snapshot.push({ key: entry.key, state: entry.state });
+      this.setState(entry, { data: updater(entry.key, entry.state.data) });
+    });
+    return snapshot;
+  }
+
+  /**
+   * Optimistically applies a patch to the given invitations wherever they are cached
+   */
+  patchInvitations(invitationIds: string[], patch: (invitation: InvitationResult) => Partial<InvitationResult>): InvitationQuerySnapshot {
+    const ids = new Set(invitationIds);
+    const apply = (invitation: InvitationResult) =>
+      ids.has(invitation.id) ? { ...invitation, ...patch(invitation) } : invitation;
+
+    return this.mutate(
+      (key, data) =>
+        (key.kind === 'invitation' && ids.has(key.invitationId)) ||
+        (key.kind !== 'invitation' && listContains(data, invitation => ids.has(invitation.id))),
+      (key, data) => key.kind === 'invitation'
+        ? apply(data as InvitationResult)
+        : mapInvitationList(data, invitations => invitations.map(apply))
+    );
+  }
+
+  /**
+   * Optimistically empties the cached invitation list of a group
+   */
+  clearGroup(groupType: string, groupId: string): InvitationQuerySnapshot {
+    return this.mutate(
+      key => key.kind === 'group' && key.groupType === groupType && key.groupId === groupId,
+      (key, data) => Array.isArray(data) ? [] : { ...(data as object), invitations: [], nextCursor: null }
+    );
+  }
+
+  restore(snapshot: InvitationQuerySnapshot): void {
+    snapshot.forEach(({ key, state }) => {
+      const entry = this.ensureEntry(key);
+      this.setState(entry, { data: state.data, updatedAt: state.updatedAt, isInvalidated: state.isInvalidated });
+      this.scheduleGc(entry);
+    });
+  }
+
+  /**
+   * Rolls back a snapshot for some invitations only, keeping every other change (including invalidations)
+   * Used when part of a bulk operation fails after the invitations that did change were invalidated
+   */
+  revertInvitations(snapshot: InvitationQuerySnapshot, invitationIds: string[]): void {
+    const ids = new Set(invitationIds);
+    snapshot.forEach(({ key, state }) => {
+      const entry = this.entries.get(hashQueryKey(key));
+      if (!entry || entry.state.data === undefined || state.data === undefined) return;
+
+      if (key.kind === 'invitation') {
+        if (ids.has(key.invitationId)) this.setState(entry, { data: state.data });
+        return;
+      }
+      const originals = new Map<string, InvitationResult>();
+      (getInvitationList(state.data) || []).forEach(invitation => {
+        if (ids.has(invitation.id)) originals.set(invitation.id, invitation);
+      });
+      if (originals.size === 0) return;
+      this.setState(entry, {
+        data: mapInvitationList(entry.state.data, invitations =>
+          invitations.map(invitation => originals.get(invitation.id) ?? invitation)
+        ),
+      });
+    });
+  }
+
+  /**
+   * Marks matching entries stale and refetches the ones that are still observed
+   */
+  invalidate(predicate: (key: InvitationQueryKey, data: unknown) => boolean): void {
+    this.entries.forEach(entry => {
+      if (!predicate(entry.key, entry.state.data)) return;
+
+      this.setState(entry, { isInvalidated: true });
+      if (entry.listeners.size > 0) {
+        this.fetch(entry.key, { force: true }).catch(() => {
+          // Error is reflected in the entry state
+        });
+      }
+    });
+  }
+
+  invalidateInvitations(invitationIds: string[]): void {
+    const ids = new Set(invitationIds);
+    this.invalidate((key, data) =>
+      (key.kind === 'invitation' && ids.has(key.invitationId)) ||
+      (key.kind !== 'invitation' && listContains(data, invitation => ids.has(invitation.id)))
+    );
+  }
+
+  invalidateGroup(groupType: string, groupId: string): void {
+    this.invalidate((key, data) => {
+      if (key.kind === 'group') {
+        return key.groupType === groupType && key.groupId === groupId;
+      }
+      if (key.kind === 'invitation') {
+        return !!data && belongsToGroup(data as InvitationResult, groupType, groupId);
+      }
+      return listContains(data, invitation => belongsToGroup(invitation, groupType, groupId));
+    });
+  }
+
+  invalidateTarget(target: InvitationTarget): void {
+    this.invalidate(key =>
+      key.kind === 'target' && key.targetType === target.type && key.targetValue === target.value
+    );
+  }
+
+  /**
+   * Serializable snapshot of every entry holding data (e.g., to pass from the server to the client)
+   */
+  dehydrate(): DehydratedVortexState {
+    const queries: DehydratedVortexState['queries'] = [];
+    this.entries.forEach(entry => {
+      if (entry.state.data !== undefined) {
+        queries.push({ key: entry.key, data: entry.state.data, updatedAt: entry.state.updatedAt });
+      }
+    });
+    return { queries };
+  }
+
+  /**
+   * Seeds entries from a dehydrated snapshot; data older than what is already cached is ignored
+   * With `unobservedOnly`, entries that have data or subscribers are left alone, so it notifies nobody
+   * (safe during render).
+   */
+  hydrate(dehydrated: DehydratedVortexState, options: { unobservedOnly?: boolean } = {}): void {
+    dehydrated.queries.forEach(query => {
+      const existing = this.entries.get(hashQueryKey(query.key));
+      if (options.unobservedOnly && existing && (existing.listeners.size > 0 || existing.state.data !== undefined)) {
+        return;
+      }
+      const entry = this.ensureEntry(query.key);
+      if (query.updatedAt > entry.state.updatedAt) {
+        this.setState(entry, { data: query.data, error: null, updatedAt: query.updatedAt, isInvalidated: false });
+      }
+      this.scheduleGc(entry);
+    });
+  }
+
+  clear(): void {
+    this.entries.forEach(entry => {
+      if (entry.gcTimer) clearTimeout(entry.gcTimer);
+    });
+    this.entries.clear();
+  }
+
+  private startQuery(entry: CacheEntry, timeoutMs: number | undefined): InFlightQuery {
+    const controller = new AbortController();
+    const query: InFlightQuery = { promise: Promise.resolve(), controller, waiters: 0, pinned: false, supersededBy: null };
+    this.setState(entry, { isFetching: true });
+
+    query.promise = this.queryFn(entry.key, { signal: controller.signal, timeoutMs }).then(
+      data => {
+        if (query.supersededBy) return query.supersededBy.promise;
+        entry.inFlight = null;
+        this.setState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false, isInvalidated: false });
+        // Entries fetched imperatively have no subscriber whose unsubscribe would schedule their collection
+        this.scheduleGc(entry);
+        return data;
+      },
+      error => {
+        if (query.supersededBy) return query.supersededBy.promise;
+        entry.inFlight = null;
+        const err = toVortexApiError(error, 'Failed to fetch invitations');
+        // Nobody is waiting for a cancelled query, so its previous state is kept
+        this.setState(entry, err instanceof VortexAbortError ? { isFetching: false } : { error: err, isFetching: false });
+        this.scheduleGc(entry);
+        throw err;
+      }
+    );
+    return query;
+  }
+
+  private waitFor(inFlight: InFlightQuery, signal: AbortSignal | undefined): Promise<unknown> {
+    if (!signal) {
+      inFlight.pinned = true;
+      return inFlight.promise;
+    }
+
+    inFlight.waiters++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        inFlight.waiters--;
+        if (inFlight.waiters === 0 && !inFlight.pinned) inFlight.controller.abort();
+        reject(new VortexAbortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      inFlight.promise.then(
+        data => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(data);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private ensureEntry(key: InvitationQueryKey): CacheEntry {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: emptyState, inFlight: null, listeners: new Set(), gcTimer: null };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  private setState(entry: CacheEntry, patch: Partial<InvitationQueryState>): void {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach(listener => listener());
+  }
+
+  private scheduleGc(entry: CacheEntry): void {
+    if (entry.listeners.size > 0 || entry.gcTimer) return;
+
+    entry.gcTimer = setTimeout(() => {
+      entry.gcTimer = null;
+      if (entry.listeners.size === 0 && !entry.inFlight) {
+        this.entries.delete(hashQueryKey(entry.key));
+      }
+    }, this.gcTimeMs);
+  }
+}
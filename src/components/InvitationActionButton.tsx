@@ -0,0 +1,122 @@
+"use client";
+
+import React from 'react';
+import { useEffect, useState } from 'react';
+import { InvitationActionsScope, useInvitationActions } from './InvitationActionsContext';
+import type { VortexApiError } from '../errors';
+import type { InvitationResult } from '../types';
+
+export interface InvitationActionButtonState {
+  isLoading: boolean;
+  isConfirming: boolean;  // Waiting for the confirming second click
+  isDisabled: boolean;    // The action does not apply to the invitation, or is in flight
+  error: VortexApiError | null;
+}
+
+export interface InvitationActionButtonProps
+  extends Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, 'children' | 'onClick' | 'onError'> {
+  invitation: InvitationResult;
+  // Ask for a second click before running the action; the button falls back after confirmTimeoutMs, on blur or Escape
+  confirm?: boolean;
+  confirmTimeoutMs?: number;  // Default: 5000ms
+  instance?: string;          // Name of the VortexProvider (ignored inside an InvitationList, which owns the actions)
+  children?: React.ReactNode | ((state: InvitationActionButtonState) => React.ReactNode);
+  onSuccess?: (invitation: InvitationResult) => void;
+  onError?: (error: VortexApiError) => void;
+}
+
+interface ActionDefinition {
+  kind: 'revoke' | 'reinvite';
+  labels: { idle: string; confirming: string; loading: string };
+  isAvailable: (invitation: InvitationResult) => boolean;
+}
+
+/**
+ * Button running revoke or reinvite, with an optional two-step confirmation
+ */
+export function InvitationActionButton(props: InvitationActionButtonProps & { action: ActionDefinition }) {
+  const { instance, ...buttonProps } = props;
+  return (
+    <InvitationActionsScope instance={instance}>
+      <ActionButton {...buttonProps} />
+    </InvitationActionsScope>
+  );
+}
+
+function ActionButton(props: Omit<InvitationActionButtonProps, 'instance'> & { action: ActionDefinition }) {
+  const {
+    action,
+    invitation,
+    confirm = false,
+    confirmTimeoutMs = 5000,
+    children,
+    onSuccess,
+    onError,
+    disabled,
+    onBlur,
+    onKeyDown,
+    ...rest
+  } = props;
+  const actions = useInvitationActions();
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const key = `${action.kind}-${invitation.id}`;
+  const isLoading = actions.isLoading(key);
+  const error = actions.getError(key);
+  const isDisabled = !!disabled || isLoading || !action.isAvailable(invitation);
+
+  useEffect(() => {
+    if (!isConfirming) return;
+    const timer = setTimeout(() => setIsConfirming(false), confirmTimeoutMs);
+    return () => clearTimeout(timer);
+  }, [isConfirming, confirmTimeoutMs]);
+
+  const run = async () => {
+    setIsConfirming(false);
+    try {
+      if (action.kind === 'revoke') {
+        await actions.revokeInvitation(invitation.id);
+        onSuccess?.(invitation);
+      } else {
+        const reinvited = await actions.reinvite(invitation.id);
+        onSuccess?.(reinvited);
+      }
+    } catch (err) {
+      // The error is also kept in the hook state under the operation key
+      onError?.(err as VortexApiError);
+    }
+  };
+
+  const state: InvitationActionButtonState = { isLoading, isConfirming, isDisabled, error };
+  const defaultLabel = isLoading ? action.labels.loading : isConfirming ? action.labels.confirming : action.labels.idle;
+  const content = typeof children === 'function' ? children(state) : children ?? defaultLabel;
+
+  return (
+    <button
+      type="button"
+      disabled={isDisabled}
+      aria-busy={isLoading}
+      data-state={isLoading ? 'loading' : isConfirming ? 'confirming' : error ? 'error' : 'idle'}
+      // Tells the buttons of a list apart, e.g. "Revoke: ada@example.com"
+      aria-label={children === undefined ? `${defaultLabel}: ${invitation.target[0]?.value ?? invitation.id}` : undefined}
+      {...rest}
+      onClick={() => {
+        if (confirm && !isConfirming) {
+          setIsConfirming(true);
+        } else {
+          run();
+        }
+      }}
+      onBlur={event => {
+        setIsConfirming(false);
+        onBlur?.(event);
+      }}
+      onKeyDown={event => {
+        if (event.key === 'Escape') setIsConfirming(false);
+        onKeyDown?.(event);
+      }}
+    >
+      {content}
+    </button>
+  );
+}
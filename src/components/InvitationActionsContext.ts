@@ -0,0 +1,36 @@
+"use client";
+
+import React, { createContext, useContext } from 'react';
+import { useInvitations } from '../hooks/useInvitations';
+
+export type InvitationActions = ReturnType<typeof useInvitations>;
+
+// Shared by the rows and buttons of an InvitationList, so they see the same revoke-<id>/reinvite-<id> state
+export const InvitationActionsContext = createContext<InvitationActions | null>(null);
+
+function OwnInvitationActions({ instance, children }: { instance?: string; children: React.ReactNode }) {
+  const actions = useInvitations({ instance });
+  return React.createElement(InvitationActionsContext.Provider, { value: actions }, children);
+}
+
+/**
+ * Renders the children with the actions of the enclosing InvitationList
+ * Outside a list, owns a useInvitations instance for them instead (e.g. a standalone row and its buttons).
+ */
+export function InvitationActionsScope({ instance, children }: { instance?: string; children: React.ReactNode }) {
+  const listActions = useContext(InvitationActionsContext);
+  return listActions
+    ? React.createElement(React.Fragment, null, children)
+    : React.createElement(OwnInvitationActions, { instance, children });
+}
+
+/**
+ * Actions of the enclosing InvitationList or InvitationActionsScope
+ */
+export function useInvitationActions(): InvitationActions {
+  const actions = useContext(InvitationActionsContext);
+  if (!actions) {
+    throw new Error('useInvitationActions must be used inside an InvitationList or InvitationActionsScope');
+  }
+  return actions;
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import React from 'react';
+import { useGroupInvitations } from '../hooks/useInvitationQueries';
+import { useInvitations } from '../hooks/useInvitations';
+import { InvitationActionsContext } from './InvitationActionsContext';
+import { InvitationRow } from './InvitationRow';
+import type { VortexApiError } from '../errors';
+import type { InvitationResult, VortexInstanceOptions } from '../types';
+
+// Elements that may only hold rows, so the loading, empty and error states go in a row of their own
+const TABLE_SECTIONS = ['tbody', 'thead', 'tfoot'];
+
+export interface InvitationListProps extends VortexInstanceOptions, Omit<React.HTMLAttributes<HTMLElement>, 'children'> {
+  groupType: string;
+  groupId: string;
+  // Element wrapping the rows (default: 'ul'); with 'tbody', 'thead' or 'tfoot' the states render in a <tr><td>
+  as?: keyof JSX.IntrinsicElements;
+  filter?: (invitation: InvitationResult) => boolean;  // E.g. hide revoked invitations
+  // Renders each invitation (default: <InvitationRow />)
+  children?: (invitation: InvitationResult) => React.ReactNode;
+  loading?: React.ReactNode;
+  empty?: React.ReactNode;
+  error?: React.ReactNode | ((error: VortexApiError, retry: () => void) => React.ReactNode);
+}
+
+/**
+ * Unstyled list of a group's invitations with loading, error and empty states
+ * Rows and buttons inside share the list's revoke/reinvite state; the list updates through the shared cache
+ */
+export function InvitationList(props: InvitationListProps) {
+  const {
+    groupType,
+    groupId,
+    instance,
+    as: Element = 'ul',
+    filter,
+    children,
+    loading,
+    empty,
+    error: errorSlot,
+    ...rest
+  } = props;
+  const { data, isLoading, isFetching, error, refetch } = useGroupInvitations(groupType, groupId, { instance });
+  const actions = useInvitations({ instance });
+
+  const retry = () => {
+    refetch();
+  };
+
+  const renderState = (state: React.ReactNode) => TABLE_SECTIONS.indexOf(Element) === -1
+    ? state
+    : React.createElement(Element, rest, <tr><td>{state}</td></tr>);
+
+  let content: React.ReactNode;
+  if (!data && error) {
+    content = renderState(typeof errorSlot === 'function'
+      ? errorSlot(error, retry)
+      : errorSlot ?? (
+        <div role="alert">
+          {error.message} <button type="button" onClick={retry}>Try again</button>
+        </div>
+      ));
+  } else if (!data || isLoading) {
+    content = renderState(loading ?? <p role="status">Loading invitations…</p>);
+  } else {
+    const invitations = filter ? data.filter(filter) : data;
+    content = invitations.length === 0
+      ? renderState(empty ?? <p role="status">No invitations yet</p>)
+      : React.createElement(
+        Element,
+        { 'aria-busy': isFetching, ...rest },
+        invitations.map(invitation => (
+          <React.Fragment key={invitation.id}>
+            {children ? children(invitation) : <InvitationRow invitation={invitation} />}
+          </React.Fragment>
+        ))
+      );
+  }
+
+  return <InvitationActionsContext.Provider value={actions}>{content}</InvitationActionsContext.Provider>;
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import React from 'react';
+import { InvitationActionsScope, useInvitationActions } from './InvitationActionsContext';
+import { InvitationStatus, getInvitationDisplayStatus } from './InvitationStatus';
+import type { InvitationDisplayStatus } from './InvitationStatus';
+import { RevokeButton } from './RevokeButton';
+import { ReinviteButton } from './ReinviteButton';
+import type { VortexApiError } from '../errors';
+import type { InvitationResult, InvitationTarget } from '../types';
+
+export interface InvitationRowState {
+  invitation: InvitationResult;
+  status: InvitationDisplayStatus;
+  target: InvitationTarget | null;  // First target of the invitation
+  isBusy: boolean;                  // A revoke or reinvite is in flight
+  error: VortexApiError | null;     // Error of the last revoke or reinvite
+}
+
+export interface InvitationRowProps extends Omit<React.HTMLAttributes<HTMLElement>, 'children'> {
+  invitation: InvitationResult;
+  as?: keyof JSX.IntrinsicElements;  // Element wrapping the row (default: 'li', e.g. 'tr' inside a table)
+  instance?: string;                 // Name of the VortexProvider (ignored inside an InvitationList)
+  children?: (row: InvitationRowState) => React.ReactNode;
+}
+
+/**
+ * One invitation: status, target, delivery, views, clicks and the resend/revoke buttons
+ * Pass a render function to lay the row out yourself; `data-status` and `aria-busy` stay on the wrapper
+ */
+export function InvitationRow(props: InvitationRowProps) {
+  const { instance, ...rowProps } = props;
+  // Outside a list, the row and its buttons share one set of actions
+  return (
+    <InvitationActionsScope instance={instance}>
+      <Row {...rowProps} />
+    </InvitationActionsScope>
+  );
+}
+
+function Row(props: Omit<InvitationRowProps, 'instance'>) {
+  const { invitation, as: Element = 'li', children, ...rest } = props;
+  const actions = useInvitationActions();
+
+  const revokeKey = `revoke-${invitation.id}`;
+  const reinviteKey = `reinvite-${invitation.id}`;
+  const row: InvitationRowState = {
+    invitation,
+    status: getInvitationDisplayStatus(invitation),
+    target: invitation.target[0] ?? null,
+    isBusy: actions.isLoading(revokeKey) || actions.isLoading(reinviteKey),
+    error: actions.getError(revokeKey) || actions.getError(reinviteKey),
+  };
+
+  return React.createElement(
+    Element,
+    { 'data-status': row.status, 'aria-busy': row.isBusy, ...rest },
+    children ? children(row) : (
+      <>
+        <InvitationStatus invitation={invitation} />
+        <span data-part="target">{row.target?.value}</span>
+        <span data-part="delivery">{invitation.deliveryTypes.join(', ')}</span>
+        <span data-part="views">{invitation.views} views</span>
+        <span data-part="clicks">{invitation.clickThroughs} clicks</span>
+        <ReinviteButton invitation={invitation} />
+        <RevokeButton invitation={invitation} />
+        {row.error && <span role="alert">{row.error.message}</span>}
+      </>
+    )
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import React from 'react';
+import type { InvitationResult } from '../types';
+
+// Invitation status, or 'revoked' for deactivated invitations
+export type InvitationDisplayStatus = InvitationResult['status'] | 'revoked';
+
+export const defaultInvitationStatusLabels: Record<InvitationDisplayStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  delivered: 'Delivered',
+  accepted: 'Accepted',
+  shared: 'Shared',
+  unfurled: 'Link previewed',
+  accepted_elsewhere: 'Accepted elsewhere',
+  revoked: 'Revoked',
+};
+
+export interface InvitationStatusProps extends Omit<React.HTMLAttributes<HTMLSpanElement>, 'children'> {
+  invitation: InvitationResult;
+  labels?: Partial<Record<InvitationDisplayStatus, string>>;
+  // Replaces the default <span>, e.g. to render a badge or an icon
+  children?: (status: { status: InvitationDisplayStatus; label: string }) => React.ReactNode;
+}
+
+export function getInvitationDisplayStatus(invitation: InvitationResult): InvitationDisplayStatus {
+  return invitation.deactivated ? 'revoked' : invitation.status;
+}
+
+/**
+ * Unstyled status badge; style it through the `data-status` attribute
+ */
+export function InvitationStatus(props: InvitationStatusProps) {
+  const { invitation, labels, children, ...rest } = props;
+  const status = getInvitationDisplayStatus(invitation);
+  const label = labels?.[status] ?? defaultInvitationStatusLabels[status];
+
+  if (children) return <>{children({ status, label })}</>;
+  return <span data-status={status} {...rest}>{label}</span>;
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import React from 'react';
+import { InvitationActionButton } from './InvitationActionButton';
+import type { InvitationActionButtonProps } from './InvitationActionButton';
+
+export type ReinviteButtonProps = InvitationActionButtonProps;
+
+const reinviteAction = {
+  kind: 'reinvite' as const,
+  labels: { idle: 'Resend', confirming: 'Confirm resend', loading: 'Resending…' },
+  // Mirrors the server, which rejects revoked and used single-use invitations
+  isAvailable: (invitation: ReinviteButtonProps['invitation']) =>
+    !invitation.deactivated && !(invitation.invitationType === 'single_use' && invitation.status === 'accepted'),
+};
+
+/**
+ * Sends an invitation again; pass `confirm` to ask for a confirming second click
+ */
+export function ReinviteButton(props: ReinviteButtonProps) {
+  return <InvitationActionButton {...props} action={reinviteAction} />;
+}
@@ -0,0 +1,20 @@
+"use client";
+
+import React from 'react';
+import { VortexGate } from './VortexGate';
+import type { JwtContext } from '../types';
+
+export interface RequireVortexAuthProps {
+  children: React.ReactNode;
+  context?: JwtContext;        // Require the token scoped to this context instead of the top-level one
+  instance?: string;           // Name of the VortexProvider to check (default: the nearest unnamed one)
+  fallback?: React.ReactNode;  // Rendered when no token can be obtained, e.g. a sign-in prompt (default: nothing)
+  loading?: React.ReactNode;   // Rendered while the token is being fetched (default: nothing)
+}
+
+/**
+ * Renders its children once the user is signed in, fetching a token first if there is none
+ */
+export function RequireVortexAuth(props: RequireVortexAuthProps) {
+  return <VortexGate {...props} />;
+}
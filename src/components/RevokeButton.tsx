@@ -0,0 +1,20 @@
+"use client";
+
+import React from 'react';
+import { InvitationActionButton } from './InvitationActionButton';
+import type { InvitationActionButtonProps } from './InvitationActionButton';
+
+export type RevokeButtonProps = InvitationActionButtonProps;
+
+const revokeAction = {
+  kind: 'revoke' as const,
+  labels: { idle: 'Revoke', confirming: 'Confirm revoke', loading: 'Revoking…' },
+  isAvailable: (invitation: RevokeButtonProps['invitation']) => !invitation.deactivated,
+};
+
+/**
+ * Revokes an invitation; asks for a confirming second click unless `confirm={false}`
+ */
+export function RevokeButton(props: RevokeButtonProps) {
+  return <InvitationActionButton confirm {...props} action={revokeAction} />;
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import React from 'react';
+import { useEffect, useState } from 'react';
+import { useVortexContext } from '../VortexContext';
+import { decodeVortexJwt } from '../utils';
+import type { VortexJwtClaims, VortexRequestLogEntry } from '../types';
+
+export interface VortexDevtoolsProps {
+  initialIsOpen?: boolean;  // Start expanded (default: false)
+  maxRequests?: number;     // Requests kept in the log, newest first (default: 50)
+  position?: 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';  // Default: bottom-right
+  instance?: string;        // Name of the VortexProvider to inspect (default: the nearest unnamed one)
+}
+
+const styles = {
+  toggle: {
+    font: '12px monospace',
+    padding: '4px 8px',
+    cursor: 'pointer',
+  },
+  panel: {
+    width: 480,
+    maxHeight: '60vh',
+    overflow: 'auto',
+    padding: 8,
+    background: '#111',
+    color: '#eee',
+    font: '12px monospace',
+    border: '1px solid #444',
+  },
+  pre: { margin: 0, whiteSpace: 'pre-wrap' as const, wordBreak: 'break-all' as const },
+  table: { width: '100%', borderCollapse: 'collapse' as const },
+};
+
+function formatDuration(ms: number): string {
+  if (ms <= 0) return 'expired';
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds < 10 ? '0' : ''}${seconds}s`;
+}
+
+function safeDecode(jwt: string | null): VortexJwtClaims | null {
+  if (!jwt) return null;
+  try {
+    return decodeVortexJwt(jwt);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Inspection panel behind VortexDevtools: token claims and user, expiry, backoff state and the request log
+ * Requests are logged from the moment the panel mounts; nothing is rendered before that
+ */
+export function VortexDevtoolsPanel(props: VortexDevtoolsProps) {
+  const { initialIsOpen = false, maxRequests = 50, position = 'bottom-right', instance } = props;
+  const { client, jwt, user, tokens, refreshJwt, clearAuth } = useVortexContext(instance);
+  const [isOpen, setIsOpen] = useState(initialIsOpen);
+  const [requests, setRequests] = useState<VortexRequestLogEntry[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  // Server HTML may come from the production entry point, which renders nothing
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  useEffect(() => {
+    return client.subscribeToRequests(entry => {
+      setRequests(current => [entry, ...current].slice(0, maxRequests));
+    });
+  }, [client, maxRequests]);
+
+  // Ticks the expiry countdown while expanded
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isOpen]);
+
+  if (!isMounted) return null;
+
+  const [vertical, horizontal] = position.split('-');
+  const containerStyle: React.CSSProperties = { position: 'fixed', zIndex: 99999, [vertical]: 8, [horizontal]: 8 };
+
+  if (!isOpen) {
+    return (
+      <div style={containerStyle}>
+        <button type="button" style={styles.toggle} aria-expanded={false} onClick={() => setIsOpen(true)}>
+          Vortex
+        </button>
+      </div>
+    );
+  }
+
+  const activeToken = client.getActiveToken();
+  const claims = safeDecode(jwt);
+  const forceRefresh = () => {
+    refreshJwt(activeToken?.context).catch(() => undefined);
+  };
+
+  return (
+    <div style={containerStyle}>
+      <section role="region" aria-label="Vortex devtools" style={styles.panel}>
+        <button type="button" style={styles.toggle} aria-expanded onClick={() => setIsOpen(false)}>
+          Close
+        </button>
+        <button type="button" style={styles.toggle} onClick={forceRefresh}>
+          Force refresh
+        </button>
+        <button type="button" style={styles.toggle} onClick={clearAuth}>
+          Clear auth
+        </button>
+
+        <h4>Token</h4>
+        <p data-testid="vortex-devtools-expiry">
+          {!jwt
+            ? 'No token'
+            : activeToken?.expiresAt
+              ? `Expires in ${formatDuration(activeToken.expiresAt - now)}`
+              : 'No expiry'}
+        </p>
+        <pre style={styles.pre} aria-label="Claims">{JSON.stringify(claims, null, 2)}</pre>
+
+        <h4>User</h4>
+        <pre style={styles.pre} aria-label="User">{JSON.stringify(user, null, 2)}</pre>
+
+        <h4>Backoff</h4>
+        <table style={styles.table}>
+          <thead>
+            <tr><th>Context</th><th>Loading</th><th>Retries</th><th>Next retry</th><th>Error</th></tr>
+          </thead>
+          <tbody>
+            {Object.keys(tokens).map(key => {
+              const token = tokens[key];
+              return (
+                <tr key={key}>
+                  <td>{key}</td>
+                  <td>{token.isLoading ? 'yes' : 'no'}</td>
+                  <td>{token.retryCount}</td>
+                  <td>{token.retryDelayMs ? `${token.retryDelayMs}ms` : '-'}</td>
+                  <td>{token.error?.message ?? '-'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <h4>Requests</h4>
+        <table style={styles.table}>
+          <thead>
+            <tr><th>Request</th><th>Status</th><th>Time</th><th /></tr>
+          </thead>
+          <tbody>
+            {requests.map(entry => (
+              <tr key={entry.id} title={entry.error?.message}>
+                <td>
+                  {entry.method} {entry.endpoint}
+                  {entry.attempt > 0 ? ` (retry ${entry.attempt})` : ''}
+                </td>
+                <td>{entry.status ?? entry.error?.name ?? '-'}</td>
+                <td>{entry.durationMs}ms</td>
+                <td>
+                  <button
+                    type="button"
+                    style={styles.toggle}
+                    aria-label={`Replay ${entry.method} ${entry.endpoint}`}
+                    onClick={() => {
+                      entry.replay().catch(() => undefined);
+                    }}
+                  >
+                    Replay
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+}
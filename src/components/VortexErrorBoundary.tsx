@@ -0,0 +1,88 @@
+"use client";
+
+import React from 'react';
+import { VortexApiError } from '../errors';
+import { useVortexErrorRetry } from '../hooks/useVortexErrorRetry';
+
+export interface VortexErrorBoundaryFallbackProps {
+  error: VortexApiError;
+  retry: () => void;     // Re-runs the failed query or JWT refresh, then renders the children again
+  reset: () => void;     // Renders the children again without retrying anything
+  isRetrying: boolean;
+}
+
+export interface VortexErrorBoundaryProps {
+  children: React.ReactNode;
+  fallback?: React.ReactNode | ((props: VortexErrorBoundaryFallbackProps) => React.ReactNode);
+  onError?: (error: VortexApiError, info: React.ErrorInfo) => void;
+  onReset?: () => void;  // Called whenever the children are rendered again after an error
+  instance?: string;     // Name of the VortexProvider whose JWT a retry refreshes (default: the nearest unnamed one)
+}
+
+interface BoundaryProps extends Omit<VortexErrorBoundaryProps, 'instance'> {
+  retryError: (error: unknown) => Promise<void>;
+}
+
+interface BoundaryState {
+  error: unknown;
+  isRetrying: boolean;
+}
+
+class ErrorBoundary extends React.Component<BoundaryProps, BoundaryState> {
+  state: BoundaryState = { error: null, isRetrying: false };
+  private unmounted = false;
+
+  static getDerivedStateFromError(error: unknown): Partial<BoundaryState> {
+    return { error };
+  }
+
+  componentDidCatch(error: unknown, info: React.ErrorInfo) {
+    if (error instanceof VortexApiError) this.props.onError?.(error, info);
+  }
+
+  componentWillUnmount() {
+    this.unmounted = true;
+  }
+
+  reset = () => {
+    this.setState({ error: null, isRetrying: false });
+    this.props.onReset?.();
+  };
+
+  retry = () => {
+    if (this.state.isRetrying) return;
+    this.setState({ isRetrying: true });
+    this.props.retryError(this.state.error).then(() => {
+      if (!this.unmounted) this.reset();
+    });
+  };
+
+  render() {
+    const { error, isRetrying } = this.state;
+    if (error === null) return this.props.children;
+    // Anything else is a bug, not a provider error: leave it to the next boundary (e.g. Next.js error.tsx)
+    if (!(error instanceof VortexApiError)) throw error;
+
+    const { fallback } = this.props;
+    if (typeof fallback === 'function') {
+      return fallback({ error, retry: this.retry, reset: this.reset, isRetrying });
+    }
+    return fallback ?? (
+      <div role="alert">
+        {error.message}{' '}
+        <button type="button" onClick={this.retry} disabled={isRetrying}>Try again</button>
+      </div>
+    );
+  }
+}
+
+/**
+ * Error boundary for provider errors thrown by the Suspense hooks (or any VortexApiError thrown while rendering)
+ * `retry` re-runs the failed query or JWT refresh before rendering the children again; errors that are not
+ * VortexApiErrors are rethrown to the next boundary.
+ */
+export function VortexErrorBoundary(props: VortexErrorBoundaryProps) {
+  const { instance, ...boundaryProps } = props;
+  const retryError = useVortexErrorRetry({ instance });
+  return <ErrorBoundary {...boundaryProps} retryError={retryError} />;
+}
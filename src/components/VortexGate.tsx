@@ -0,0 +1,61 @@
+"use client";
+
+import React from 'react';
+import { useEffect, useState } from 'react';
+import { useVortexContext } from '../VortexContext';
+import { useVortexPermissions } from '../hooks/useVortexPermissions';
+import { getJwtContextKey } from '../utils';
+import type { JwtContext } from '../types';
+
+export interface VortexGateProps {
+  children: React.ReactNode;
+  scope?: string | string[];              // Admin scopes the user must all hold
+  role?: string | string[];               // Roles, any of which grants access
+  group?: { type: string; id?: string };  // Group the user must belong to
+  context?: JwtContext;                   // Check the token scoped to this context instead of the top-level one
+  instance?: string;                      // Name of the VortexProvider to check (default: the nearest unnamed one)
+  fallback?: React.ReactNode;             // Rendered when signed out or not permitted (default: nothing)
+  loading?: React.ReactNode;              // Rendered while a token is being fetched (default: nothing)
+}
+
+/**
+ * Renders its children only for a signed-in user meeting every requirement
+ * A missing or expired token is refreshed once; `loading` is shown meanwhile and `fallback` if it cannot be obtained
+ */
+export function VortexGate(props: VortexGateProps) {
+  const { children, scope, role, group, context: jwtContext, instance, fallback = null, loading = null } = props;
+  const vortex = useVortexContext(instance);
+  const permissions = useVortexPermissions(jwtContext, { instance });
+  const { refreshJwt, refreshScopedJwt, client } = vortex;
+
+  const activeToken = client.getActiveToken();
+  const token = jwtContext ? vortex.tokens[getJwtContextKey(jwtContext)] : activeToken;
+  // Without a context, the refresh reuses the context of the top-level token
+  const key = getJwtContextKey(jwtContext ?? activeToken?.context);
+  const hasValidToken = !!token?.jwt && (token.expiresAt === null || token.expiresAt > Date.now());
+  const isLoading = !!token?.isLoading;
+
+  // At most one refresh per context, so a failed refresh shows the fallback instead of retrying forever
+  const [requestedKey, setRequestedKey] = useState<string | null>(null);
+  const needsRefresh = !hasValidToken && !isLoading && requestedKey !== key;
+
+  useEffect(() => {
+    if (!needsRefresh) return;
+    setRequestedKey(key);
+    if (jwtContext) {
+      refreshScopedJwt(jwtContext);
+    } else {
+      refreshJwt(activeToken?.context);
+    }
+  }, [needsRefresh, key, jwtContext, activeToken, refreshJwt, refreshScopedJwt]);
+
+  if (!hasValidToken) {
+    return <>{isLoading || needsRefresh ? loading : fallback}</>;
+  }
+
+  const permitted =
+    (!scope || permissions.hasScope(scope)) &&
+    (!role || permissions.hasRole(role)) &&
+    (!group || permissions.isMemberOf(group.type, group.id));
+  return <>{permitted ? children : fallback}</>;
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import type { AuthenticatedUser, JwtContext } from './types';
+
+/**
+ * Messages exchanged between tabs sharing a Vortex session
+ */
+export type CrossTabMessage =
+  | { type: 'heartbeat'; tabId: string }
+  | { type: 'leave'; tabId: string }
+  | { type: 'refresh-start'; tabId: string; key: string }
+  | { type: 'refresh-failed'; tabId: string; key: string }
+  | {
+      type: 'token';
+      tabId: string;
+      key: string;
+      context?: JwtContext;
+      jwt: string;
+      user: AuthenticatedUser | null;
+      active: boolean; // Whether the token is the sender's top-level token
+    }
+  | { type: 'clear'; tabId: string };
+
+// Distributive Omit so each message variant keeps its own fields
+type WithoutTabId<T> = T extends unknown ? Omit<T, 'tabId'> : never;
+export type CrossTabOutgoingMessage = WithoutTabId<CrossTabMessage>;
+
+export interface CrossTabChannelOptions {
+  channelName: string;
+  heartbeatMs?: number;
+  onMessage: (message: CrossTabMessage) => void;
+}
+
+let tabCounter = 0;
+
+function createTabId(): string {
+  // Time-ordered so the oldest tab wins the election
+  tabCounter += 1;
+  return `${Date.now().toString(36)}-${tabCounter.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Cross-tab messaging over BroadcastChannel, falling back to localStorage `storage` events
+ * Tabs exchange heartbeats and the oldest live tab is elected leader
+ */
+export class CrossTabChannel {
+  readonly tabId = createTabId();
+  private peers = new Map<string, number>();
+  private heartbeatMs: number;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private broadcastChannel: BroadcastChannel | null = null;
+  private storageKey: string;
+  private onMessage: (message: CrossTabMessage) => void;
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key !== this.storageKey || !event.newValue) return;
+    try {
+      this.receive(JSON.parse(event.newValue).message);
+    } catch {
+      // Ignore malformed entries written by other code
+    }
+  };
+
+  constructor(options: CrossTabChannelOptions) {
+    this.heartbeatMs = options.heartbeatMs ?? 5000;
+    this.storageKey = `${options.channelName}:message`;
+    this.onMessage = options.onMessage;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.broadcastChannel = new BroadcastChannel(options.channelName);
+      this.broadcastChannel.onmessage = event => this.receive(event.data);
+    } else if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+      window.addEventListener('storage', this.handleStorage);
+    }
+
+    this.post({ type: 'heartbeat' });
+    this.heartbeatTimer = setInterval(() => {
+      this.prunePeers();
+      this.post({ type: 'heartbeat' });
+    }, this.heartbeatMs);
+  }
+
+  isLeader(): boolean {
+    this.prunePeers();
+    let leader = this.tabId;
+    this.peers.forEach((_, peerId) => {
+      if (peerId < leader) leader = peerId;
+    });
+    return leader === this.tabId;
+  }
+
+  post(message: CrossTabOutgoingMessage): void {
+    const fullMessage = { ...message, tabId: this.tabId } as CrossTabMessage;
+
+    if (this.broadcastChannel) {
+      this.broadcastChannel.postMessage(fullMessage);
+    } else if (typeof localStorage !== 'undefined') {
+      try {
+        // The nonce makes every write a change so other tabs always receive a storage event
+        localStorage.setItem(this.storageKey, JSON.stringify({ message: fullMessage, nonce: Math.random() }));
+        localStorage.removeItem(this.storageKey);
+      } catch {
+        // Storage unavailable (private mode, quota): this tab simply stays independent
+      }
+    }
+  }
+
+  close(): void {
+    this.post({ type: 'leave' });
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+    if (this.broadcastChannel) {
+      this.broadcastChannel.close();
+      this.broadcastChannel = null;
+    } else if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.handleStorage);
+    }
+    this.peers.clear();
+  }
+
+  private receive(message: CrossTabMessage): void {
+    if (!message || message.tabId === this.tabId) return;
+
+    if (message.type === 'leave') {
+      this.peers.delete(message.tabId);
+      return;
+    }
+
+    const isNewPeer = !this.peers.has(message.tabId);
+    this.peers.set(message.tabId, Date.now());
+    if (message.type === 'heartbeat') {
+      // Answer newcomers right away so they learn about this tab before the next heartbeat
+      if (isNewPeer) this.post({ type: 'heartbeat' });
+      return;
+    }
+
+    this.onMessage(message);
+  }
+
+  private prunePeers(): void {
+    const cutoff = Date.now() - this.heartbeatMs * 3;
+    this.peers.forEach((lastSeen, peerId) => {
+      if (lastSeen < cutoff) this.peers.delete(peerId);
+    });
+  }
+}
@@ -0,0 +1,9 @@
+"use client";
+
+import type { VortexDevtoolsProps } from './components/VortexDevtoolsPanel';
+
+// Production entry point of `/devtools`: imports no panel code, so bundles never include it
+
+export type { VortexDevtoolsProps };
+
+export const VortexDevtools: (props: VortexDevtoolsProps) => JSX.Element | null = () => null;
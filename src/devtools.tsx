@@ -0,0 +1,14 @@
+"use client";
+
+import { VortexDevtoolsPanel } from './components/VortexDevtoolsPanel';
+import type { VortexDevtoolsProps } from './components/VortexDevtoolsPanel';
+
+// Development entry point of `/devtools`; production builds resolve devtools.production instead
+
+export type { VortexDevtoolsProps };
+
+/**
+ * Development-only panel for inspecting tokens, backoff and requests; renders nothing otherwise
+ */
+export const VortexDevtools: (props: VortexDevtoolsProps) => JSX.Element | null =
+  process.env.NODE_ENV === 'development' ? VortexDevtoolsPanel : () => null;
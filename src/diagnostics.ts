@@ -0,0 +1,154 @@
+"use client";
+
+import { toVortexApiError, VortexAbortError, VortexAuthError, VortexNetworkError, VortexTimeoutError } from './errors';
+import type { VortexApiError } from './errors';
+import { createVortexRequest, sendVortexRequest, unwrapVortexResponse } from './transport';
+import type { VortexCallOptions, VortexConfig, VortexResponse, VortexRouteReport } from './types';
+
+export interface VortexRouteDiagnosticsOptions extends VortexCallOptions {
+  // Token for the invitation routes when /jwt does not issue one (default: the token /jwt returns)
+  jwt?: string;
+}
+
+interface RouteProbe {
+  route: VortexRouteReport['route'];
+  method: string;
+  endpoint: string;
+  backend?: boolean;  // Sent to backendApiUrl when set
+  body?: unknown;
+  expected: string;   // Description of a readable response, used in wrong-envelope reports
+  isReadable: (data: unknown) => boolean;
+}
+
+// Ids that cannot exist, so write routes reject the probe instead of changing anything
+const PROBE_ID = 'vortex-route-diagnostics';
+const PROBE_EMAIL = 'route-diagnostics@vortex.invalid';
+const DEFAULT_PROBE_TIMEOUT_MS = 10000;
+
+const isObject = (data: unknown): boolean => !!data && typeof data === 'object' && !Array.isArray(data);
+const isHandlerErrorBody = (body: unknown): boolean =>
+  isObject(body) && (typeof (body as { error?: unknown }).error === 'string' || (body as { code?: unknown }).code !== undefined);
+const isInvitationList = (data: unknown): boolean =>
+  isObject(data) && Array.isArray((data as { invitations?: unknown }).invitations);
+
+const routeProbes: RouteProbe[] = [
+  {
+    route: 'jwt',
+    method: 'POST',
+    endpoint: '/jwt',
+    backend: true,
+    expected: '{ jwt: string } (optionally wrapped in { data })',
+    isReadable: data => isObject(data) && typeof (data as { jwt?: unknown }).jwt === 'string',
+  },
+  {
+    route: 'getInvitationsByTarget',
+    method: 'GET',
+    endpoint: `/invitations?targetType=email&targetValue=${encodeURIComponent(PROBE_EMAIL)}`,
+    expected: '{ data: { invitations: [...] } }',
+    isReadable: isInvitationList,
+  },
+  {
+    route: 'acceptInvitations',
+    method: 'POST',
+    endpoint: '/invitations/accept',
+    body: { invitationIds: [], target: null },
+    expected: '{ data: InvitationResult }',
+    isReadable: isObject,
+  },
+  {
+    route: 'getInvitationsByGroup',
+    method: 'GET',
+    endpoint: `/invitations/by-group/${PROBE_ID}/${PROBE_ID}`,
+    expected: '{ data: { invitations: [...] } }',
+    isReadable: isInvitationList,
+  },
+  {
+    route: 'reinvite',
+    method: 'POST',
+    endpoint: `/invitations/${PROBE_ID}/reinvite`,
+    expected: '{ data: InvitationResult }',
+    isReadable: isObject,
+  },
+];
+
+function classifyResponse(probe: RouteProbe, response: VortexResponse): Pick<VortexRouteReport, 'status' | 'message'> {
+  if (response.body === undefined) {
+    return {
+      status: 'wrong-envelope',
+      message: `Expected a JSON body shaped like ${probe.expected}, got a non-JSON response (is a page or rewrite served at this path?)`,
+    };
+  }
+  if (!probe.isReadable(unwrapVortexResponse(response))) {
+    return { status: 'wrong-envelope', message: `Expected a body shaped like ${probe.expected}` };
+  }
+  return { status: 'reachable', message: `Answered ${response.status}` };
+}
+
+function classifyError(error: VortexApiError): Pick<VortexRouteReport, 'status' | 'message'> {
+  if (error instanceof VortexNetworkError || error instanceof VortexTimeoutError) {
+    return {
+      status: 'cors-blocked',
+      message: `No response (${error.message}): the request was blocked by CORS or the server is unreachable`,
+    };
+  }
+  if (error instanceof VortexAuthError) {
+    return {
+      status: 'auth-required',
+      message: `Rejected with ${error.status}: forward the Vortex JWT (e.g. with bearerTokenInterceptor) or session cookies`,
+    };
+  }
+  // A JSON error body shows a handler ran and rejected the probe's unknown ids; routers answer with a page or nothing
+  if ((error.status === 404 || error.status === 405) && !isHandlerErrorBody(error.body)) {
+    return { status: 'missing', message: `No route answered (${error.status}): mount the Vortex route handler at this path` };
+  }
+  return { status: 'reachable', message: `Answered ${error.status}: ${error.message}` };
+}
+
+/**
+ * Probes the routes the client relies on and reports, for each one, whether it is reachable
+ * Write routes are probed with ids that cannot exist, so nothing is accepted or reinvited
+ */
+export async function diagnoseVortexRoutes(
+  config: VortexConfig,
+  options: VortexRouteDiagnosticsOptions = {}
+): Promise<VortexRouteReport[]> {
+  const { jwt: fallbackJwt, ...callOptions } = options;
+  // Same default as resolveVortexConfig
+  const apiBaseUrl = config.apiBaseUrl || '/api/vortex';
+  const timeoutMs = callOptions.timeoutMs ?? config.requestTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+  let jwt: string | null = fallbackJwt ?? null;
+  const reports: VortexRouteReport[] = [];
+
+  // Sequential, so the token issued by /jwt authenticates the other probes
+  for (const probe of routeProbes) {
+    const baseUrl = probe.backend && config.backendApiUrl ? config.backendApiUrl : apiBaseUrl;
+    const request = createVortexRequest(baseUrl, probe.endpoint, {
+      method: probe.method,
+      body: probe.body === undefined ? undefined : JSON.stringify(probe.body),
+    });
+    const report: VortexRouteReport = {
+      route: probe.route,
+      method: probe.method,
+      url: request.url,
+      endpoint: probe.endpoint,
+      status: 'reachable',
+      httpStatus: null,
+      message: '',
+      error: null,
+    };
+
+    try {
+      const response = await sendVortexRequest(request, config, { jwt, config }, { signal: callOptions.signal, timeoutMs });
+      Object.assign(report, { httpStatus: response.status }, classifyResponse(probe, response));
+      if (probe.route === 'jwt' && report.status === 'reachable') {
+        jwt = unwrapVortexResponse<{ jwt: string }>(response).jwt;
+      }
+    } catch (error) {
+      const err = toVortexApiError(error, 'Route probe failed');
+      if (err instanceof VortexAbortError) throw err;
+      Object.assign(report, { httpStatus: err.status ?? null, error: err }, classifyError(err));
+    }
+    reports.push(report);
+  }
+  return reports;
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import type { VortexRequest, VortexResponse, VortexRouteReport } from './types';
+
+export interface VortexApiErrorDetails {
+  status?: number;     // HTTP status, if a response was received
+  code?: string;       // Server error code from the response body, if any
+  endpoint?: string;   // Endpoint relative to the base URL (e.g., "/invitations/accept")
+  method?: string;
+  retryable?: boolean; // Whether retrying the same request may succeed
+  body?: unknown;      // Original (parsed) response body
+  cause?: unknown;     // Underlying error (e.g., the TypeError thrown by fetch)
+}
+
+/**
+ * Base class for every error raised by the provider when talking to the Vortex API
+ */
+export class VortexApiError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly endpoint?: string;
+  readonly method?: string;
+  readonly retryable: boolean;
+  readonly body?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: VortexApiErrorDetails = {}) {
+    super(message);
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'VortexApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.endpoint = details.endpoint;
+    this.method = details.method;
+    this.retryable = details.retryable ?? false;
+    this.body = details.body;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS failure, CORS rejection...)
+ */
+export class VortexNetworkError extends VortexApiError {
+  constructor(message: string, details: VortexApiErrorDetails = {}) {
+    super(message, { retryable: true, ...details });
+    this.name = 'VortexNetworkError';
+  }
+}
+
+/**
+ * The server rejected the request as unauthenticated (401) or unauthorized (403)
+ */
+export class VortexAuthError extends VortexApiError {
+  constructor(message: string, details: VortexApiErrorDetails = {}) {
+    super(message, { retryable: false, ...details });
+    this.name = 'VortexAuthError';
+  }
+}
+
+/**
+ * The request did not complete within the allotted time
+ */
+export class VortexTimeoutError extends VortexApiError {
+  constructor(message: string, details: VortexApiErrorDetails = {}) {
+    super(message, { retryable: true, ...details });
+    this.name = 'VortexTimeoutError';
+  }
+}
+
+/**
+ * The operation was cancelled by the caller (e.g., through an AbortSignal)
+ */
+export class VortexAbortError extends VortexApiError {
+  constructor(message: string = 'The operation was aborted', details: VortexApiErrorDetails = {}) {
+    super(message, { retryable: false, ...details });
+    this.name = 'VortexAbortError';
+  }
+}
+
+export interface VortexValidationIssue {
+  path: string;       // Location of the invalid value (e.g., "invitations[2].groups[0].groupId")
+  message: string;    // What was expected
+  received: unknown;  // The value that was received
+}
+
+/**
+ * A response did not match the expected shape (raised in strict validation mode)
+ */
+export class VortexValidationError extends VortexApiError {
+  readonly issues: VortexValidationIssue[];
+
+  constructor(message: string, issues: VortexValidationIssue[], details: VortexApiErrorDetails = {}) {
+    super(message, { code: 'INVALID_RESPONSE', retryable: false, ...details });
+    this.name = 'VortexValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * An API route failed diagnoseVortexRoutes (reported through onError with `config.diagnoseRoutes`)
+ */
+export class VortexRouteError extends VortexApiError {
+  readonly report: VortexRouteReport;
+
+  constructor(report: VortexRouteReport) {
+    super(report.message, {
+      status: report.httpStatus ?? undefined,
+      code: `ROUTE_${report.status.toUpperCase().replace('-', '_')}`,
+      endpoint: report.endpoint,
+      method: report.method,
+      cause: report.error ?? undefined,
+    });
+    this.name = 'VortexRouteError';
+    this.report = report;
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Builds the error matching an unsuccessful HTTP response
+ */
+export function createVortexApiErrorFromResponse(response: VortexResponse, request: VortexRequest): VortexApiError {
+  const body = response.body as { error?: unknown; code?: unknown } | undefined;
+  const serverMessage = body && typeof body.error === 'string' ? body.error : undefined;
+  const details: VortexApiErrorDetails = {
+    status: response.status,
+    code: body && typeof body.code === 'string' ? body.code : undefined,
+    endpoint: request.endpoint,
+    method: request.method,
+    retryable: isRetryableStatus(response.status),
+    body: response.body,
+  };
+  const message = serverMessage || `HTTP ${response.status}: ${response.statusText}`;
+
+  if (response.status === 401 || response.status === 403) {
+    return new VortexAuthError(message, details);
+  }
+  return new VortexApiError(message, details);
+}
+
+/**
+ * Normalizes anything thrown into a VortexApiError (existing Vortex errors are returned as-is)
+ */
+export function toVortexApiError(error: unknown, fallbackMessage: string, request?: VortexRequest): VortexApiError {
+  if (error instanceof VortexApiError) {
+    return error;
+  }
+  return new VortexApiError(error instanceof Error ? error.message : fallbackMessage, {
+    endpoint: request?.endpoint,
+    method: request?.method,
+    cause: error,
+  });
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useSyncExternalStore } from 'use-sync-external-store/shim';
+import { useVortexContext } from '../VortexContext';
+import { serializeInvitationListOptions, mergeInvitationPages } from '../pagination';
+import type { InvitationQueryKey, InvitationQueryState } from '../cache';
+import type { VortexApiError } from '../errors';
+import type { InvitationListOptions, InvitationPage, InvitationResult, VortexInstanceOptions } from '../types';
+
+export interface UseInfiniteGroupInvitationsOptions extends Omit<InvitationListOptions, 'cursor'>, VortexInstanceOptions {
+  enabled?: boolean; // Set to false to skip fetching (default: true)
+}
+
+export interface InfiniteInvitationsResult {
+  invitations: InvitationResult[]; // Every loaded page merged, without duplicates
+  pages: InvitationPage[];
+  hasNextPage: boolean;
+  fetchNextPage: () => Promise<void>;
+  isLoading: boolean;          // No first page yet and a fetch is pending
+  isFetching: boolean;         // Any page is being fetched (including background revalidation)
+  isFetchingNextPage: boolean;
+  error: VortexApiError | null;
+  refetch: () => Promise<void>; // Reloads every loaded page from the start
+}
+
+/**
+ * Infinite-scroll hook for the invitations of a group
+ * Pages are cached like any other query, so they are shared, deduplicated and revalidated after mutations
+ */
+export function useInfiniteGroupInvitations(
+  groupType: string,
+  groupId: string,
+  options: UseInfiniteGroupInvitationsOptions = {}
+): InfiniteInvitationsResult {
+  const { enabled: enabledOption, instance, ...filters } = options;
+  const { cache } = useVortexContext(instance);
+  const enabled = enabledOption !== false;
+  // Loaded cursors restart from the first page whenever the group or filters change
+  const listHash = `${groupType}:${groupId}?${serializeInvitationListOptions(filters)}`;
+  const [cursorState, setCursorState] = useState<{ listHash: string; cursors: (string | undefined)[] }>(
+    { listHash, cursors: [undefined] }
+  );
+  const cursors = useMemo(
+    () => (cursorState.listHash === listHash ? cursorState.cursors : [undefined]),
+    [cursorState, listHash]
+  );
+
+  const getPageKey = useCallback(
+    (cursor: string | undefined): InvitationQueryKey => ({
+      kind: 'group',
+      groupType,
+      groupId,
+      list: cursor ? { ...filters, cursor } : filters,
+    }),
+    // The list hash captures every filter
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [listHash]
+  );
+  const keys = useMemo(() => cursors.map(getPageKey), [getPageKey, cursors]);
+
+  const subscribe = useCallback((listener: () => void) => {
+    const unsubscribes = keys.map(key => cache.subscribe(key, listener));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [cache, keys]);
+
+  // Returns the same array while no page changed, as useSyncExternalStore requires
+  const snapshotRef = useRef<InvitationQueryState<InvitationPage>[]>([]);
+  const getSnapshot = useCallback(() => {
+    const next = keys.map(key => cache.getState<InvitationPage>(key));
+    const previous = snapshotRef.current;
+    if (previous.length === next.length && next.every((state, index) => state === previous[index])) {
+      return previous;
+    }
+    snapshotRef.current = next;
+    return next;
+  }, [cache, keys]);
+  const states = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    keys.forEach(key => {
+      cache.fetch(key).catch(() => {
+        // Error is exposed through the query state
+      });
+    });
+  }, [cache, keys, enabled]);
+
+  const lastState = states[states.length - 1];
+  const nextCursor = lastState?.data?.nextCursor ?? null;
+
+  const fetchNextPage = useCallback(async () => {
+    if (!nextCursor || cursors.indexOf(nextCursor) !== -1) return;
+
+    setCursorState({ listHash, cursors: [...cursors, nextCursor] });
+    try {
+      await cache.fetch(getPageKey(nextCursor));
+    } catch {
+      // Error is exposed through the query state
+    }
+  }, [cache, getPageKey, nextCursor, cursors, listHash]);
+
+  const pageCount = keys.length;
+  const refetch = useCallback(async () => {
+    const reloaded: (string | undefined)[] = [];
+    let cursor: string | undefined;
+    try {
+      // Cursors may shift when invitations are added or removed, so pages are reloaded in order
+      for (let index = 0; index < pageCount; index++) {
+        reloaded.push(cursor);
+        const page = await cache.fetch<InvitationPage>(getPageKey(cursor), { force: true });
+        if (!page.nextCursor) break;
+        cursor = page.nextCursor;
+      }
+    } catch {
+      // Error is exposed through the query state
+    }
+    setCursorState({ listHash, cursors: reloaded.length > 0 ? reloaded : [undefined] });
+  }, [cache, getPageKey, pageCount, listHash]);
+
+  const pages = useMemo(() => {
+    const loaded: InvitationPage[] = [];
+    for (const state of states) {
+      if (!state.data) break;
+      loaded.push(state.data);
+    }
+    return loaded;
+  }, [states]);
+  const invitations = useMemo(() => mergeInvitationPages(pages), [pages]);
+  const error = states.reduce<VortexApiError | null>((found, state) => found || state.error, null);
+
+  return {
+    invitations,
+    pages,
+    hasNextPage: !!nextCursor,
+    fetchNextPage,
+    isLoading: enabled && states[0].data === undefined && !states[0].error,
+    isFetching: states.some(state => state.isFetching),
+    isFetchingNextPage: states.length > 1 && lastState.data === undefined && !lastState.error,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useReducer, useEffect, useCallback, useRef } from 'react';
+import { useVortexContext } from '../VortexContext';
+import { toVortexApiError, VortexAbortError, VortexApiError } from '../errors';
+import type { InvitationGroup, InvitationResult, InvitationTarget, VortexInstanceOptions } from '../types';
+
+export type InvitationAcceptanceStatus =
+  | 'parsing'    // Reading the invitation id from the URL
+  | 'loading'    // Fetching the invitation
+  | 'ready'      // The invitation can be accepted
+  | 'accepting'
+  | 'accepted'
+  | 'expired'    // Already used (single-use accepted, or accepted elsewhere) or gone (409/410)
+  | 'revoked'    // Deactivated by the inviter (or rejected with code REVOKED)
+  | 'error';     // No id in the URL, or a request failed (accept may be retried once the invitation loaded)
+
+export interface InvitationIdLocation {
+  // Query parameters that may hold the id, checked in order (default: ['invitationId', 'invite'])
+  queryParam?: string | string[];
+  // Path holding the id, e.g. '/invite/:invitationId' or a RegExp whose first group is the id
+  pathPattern?: string | RegExp;
+}
+
+export interface UseInvitationAcceptanceOptions extends InvitationIdLocation, VortexInstanceOptions {
+  invitationId?: string;  // Use this id instead of parsing the URL
+  url?: string | URL;     // URL to parse (default: window.location.href)
+  // Called after a successful accept, before any redirect
+  onAccepted?: (accepted: InvitationResult, invitation: InvitationResult) => void;
+  // Where to go after a successful accept; return null to stay
+  redirectTo?: string | ((accepted: InvitationResult, invitation: InvitationResult) => string | null);
+  // Performs the redirect, e.g. router.push (default: window.location.assign)
+  navigate?: (url: string) => void;
+}
+
+export interface InvitationAcceptanceResult {
+  status: InvitationAcceptanceStatus;
+  invitationId: string | null;
+  invitation: InvitationResult | null;
+  groups: InvitationGroup[];
+  acceptedInvitation: InvitationResult | null;
+  error: VortexApiError | null;
+  // Resolves with the accepted invitation, or null when it failed (see status/error) or is not possible now
+  accept: (target: InvitationTarget) => Promise<InvitationResult | null>;
+  reload: () => void;
+}
+
+interface AcceptanceState {
+  status: InvitationAcceptanceStatus;
+  invitationId: string | null;
+  invitation: InvitationResult | null;
+  acceptedInvitation: InvitationResult | null;
+  error: VortexApiError | null;
+}
+
+type AcceptanceAction =
+  | { type: 'PARSED'; invitationId: string | null }
+  | { type: 'LOADED'; invitation: InvitationResult }
+  | { type: 'LOAD_FAILED'; error: VortexApiError }
+  | { type: 'ACCEPT' }
+  | { type: 'ACCEPTED'; accepted: InvitationResult }
+  | { type: 'ACCEPT_FAILED'; error: VortexApiError }
+  | { type: 'RELOAD' };
+
+const initialState: AcceptanceState = {
+  status: 'parsing',
+  invitationId: null,
+  invitation: null,
+  acceptedInvitation: null,
+  error: null,
+};
+
+const DEFAULT_QUERY_PARAMS = ['invitationId', 'invite'];
+
+// The server reports invitations that can no longer be accepted with 409 (already used) or 410 (gone or revoked)
+function getFailureStatus(error: VortexApiError): InvitationAcceptanceStatus {
+  if (error.code === 'REVOKED') return 'revoked';
+  return error.status === 409 || error.status === 410 ? 'expired' : 'error';
+}
+
+function getAvailability(invitation: InvitationResult): InvitationAcceptanceStatus {
+  if (invitation.deactivated) return 'revoked';
+  if (invitation.status === 'accepted_elsewhere') return 'expired';
+  if (invitation.status === 'accepted' && invitation.invitationType === 'single_use') return 'expired';
+  return 'ready';
+}
+
+function canAccept(state: AcceptanceState): boolean {
+  return !!state.invitation && (state.status === 'ready' || (state.status === 'error' && !state.acceptedInvitation));
+}
+
+// Transitions that do not apply to the current state are ignored
+function acceptanceReducer(state: AcceptanceState, action: AcceptanceAction): AcceptanceState {
+  switch (action.type) {
+    case 'PARSED':
+      if (!action.invitationId) {
+        return {
+          ...initialState,
+          status: 'error',
+          error: new VortexApiError('No invitation id found in the URL', { code: 'INVITATION_ID_MISSING' }),
+        };
+      }
+      return { ...initialState, status: 'loading', invitationId: action.invitationId };
+    case 'LOADED':
+      if (state.status !== 'loading') return state;
+      return { ...state, status: getAvailability(action.invitation), invitation: action.invitation, error: null };
+    case 'LOAD_FAILED':
+      if (state.status !== 'loading') return state;
+      return { ...state, status: getFailureStatus(action.error), error: action.error };
+    case 'ACCEPT':
+      return canAccept(state) ? { ...state, status: 'accepting', error: null } : state;
+    case 'ACCEPTED':
+      if (state.status !== 'accepting') return state;
+      return { ...state, status: 'accepted', acceptedInvitation: action.accepted };
+    case 'ACCEPT_FAILED':
+      if (state.status !== 'accepting') return state;
+      return { ...state, status: getFailureStatus(action.error), error: action.error };
+    case 'RELOAD':
+      if (!state.invitationId || state.status === 'accepting') return state;
+      return { ...initialState, status: 'loading', invitationId: state.invitationId };
+    default:
+      return state;
+  }
+}
+
+function compilePathPattern(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) return pattern;
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/:invitationId\b/, '([^/]+)')
+    .replace(/:[A-Za-z_]\w*/g, '[^/]+');
+  // Anchored at the end only, so a base path before the pattern is allowed
+  return new RegExp(`${source}/?$`);
+}
+
+/**
+ * Reads an invitation id from a URL's query parameters, then from its path
+ */
+export function parseInvitationIdFromUrl(url: string | URL, location: InvitationIdLocation = {}): string | null {
+  const parsed = new URL(url.toString(), typeof window !== 'undefined' ? window.location.href : 'http://localhost');
+  const queryParams = location.queryParam === undefined
+    ? DEFAULT_QUERY_PARAMS
+    : Array.isArray(location.queryParam) ? location.queryParam : [location.queryParam];
+
+  for (const name of queryParams) {
+    const value = parsed.searchParams.get(name);
+    if (value) return value;
+  }
+  if (location.pathPattern) {
+    const match = compilePathPattern(location.pathPattern).exec(parsed.pathname);
+    if (match && match[1]) return decodeURIComponent(match[1]);
+  }
+  return null;
+}
+
+function defaultNavigate(url: string): void {
+  if (typeof window !== 'undefined') window.location.assign(url);
+}
+
+/**
+ * Drives an invitation landing page: parses the id from the URL, loads the invitation,
+ * reports whether it can still be accepted, accepts it and redirects
+ *
+ * @example
+ * const { status, invitation, accept } = useInvitationAcceptance({
+ *   pathPattern: '/invite/:invitationId',
+ *   redirectTo: accepted => `/teams/${accepted.groups[0]?.groupId}`,
+ *   navigate: router.push,
+ * });
+ */
+export function useInvitationAcceptance(options: UseInvitationAcceptanceOptions = {}): InvitationAcceptanceResult {
+  const { getInvitation, acceptInvitations } = useVortexContext(options.instance);
+  const [state, dispatch] = useReducer(acceptanceReducer, initialState);
+
+  // Callbacks are read when needed, so inline functions do not restart the flow
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Set before dispatching, as stateRef only sees 'accepting' after the next render
+  const acceptingRef = useRef(false);
+
+  const { invitationId: explicitId, url, queryParam, pathPattern } = options;
+  const urlKey = url ? url.toString() : null;
+  const queryKey = queryParam === undefined ? null : String(queryParam);
+  const patternKey = pathPattern === undefined ? null : String(pathPattern);
+
+  // The URL is read in an effect, as window is not available during server rendering
+  useEffect(() => {
+    const current = optionsRef.current;
+    const invitationId = explicitId ?? (
+      current.url || typeof window !== 'undefined'
+        ? parseInvitationIdFromUrl(current.url ?? window.location.href, current)
+        : null
+    );
+    dispatch({ type: 'PARSED', invitationId });
+  }, [explicitId, urlKey, queryKey, patternKey]);
+
+  useEffect(() => {
+    if (state.status !== 'loading' || !state.invitationId) return;
+
+    const controller = new AbortController();
+    getInvitation(state.invitationId, { signal: controller.signal }).then(
+      invitation => dispatch({ type: 'LOADED', invitation }),
+      error => {
+        const err = toVortexApiError(error, 'Failed to load invitation');
+        if (!(err instanceof VortexAbortError)) dispatch({ type: 'LOAD_FAILED', error: err });
+      }
+    );
+    return () => controller.abort();
+  }, [state.status, state.invitationId, getInvitation]);
+
+  const accept = useCallback(async (target: InvitationTarget): Promise<InvitationResult | null> => {
+    const current = stateRef.current;
+    if (acceptingRef.current || !canAccept(current)) return null;
+    const invitation = current.invitation!;
+
+    acceptingRef.current = true;
+    dispatch({ type: 'ACCEPT' });
+    let accepted: InvitationResult;
+    try {
+      accepted = await acceptInvitations([invitation.id], target);
+    } catch (error) {
+      dispatch({ type: 'ACCEPT_FAILED', error: toVortexApiError(error, 'Failed to accept invitation') });
+      return null;
+    } finally {
+      acceptingRef.current = false;
+    }
+    dispatch({ type: 'ACCEPTED', accepted });
+
+    const { onAccepted, redirectTo, navigate = defaultNavigate } = optionsRef.current;
+    onAccepted?.(accepted, invitation);
+    const destination = typeof redirectTo === 'function' ? redirectTo(accepted, invitation) : redirectTo;
+    if (destination) navigate(destination);
+    return accepted;
+  }, [acceptInvitations]);
+
+  const reload = useCallback(() => dispatch({ type: 'RELOAD' }), []);
+
+  return {
+    status: state.status,
+    invitationId: state.invitationId,
+    invitation: state.invitation,
+    groups: state.invitation?.groups || [],
+    acceptedInvitation: state.acceptedInvitation,
+    error: state.error,
+    accept,
+    reload,
+  };
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect, useRef } from 'react';
+import { useVortexContext } from '../VortexContext';
+import { matchesInvitationEvent } from '../realtime';
+import type { InvitationEvent, InvitationEventFilter, VortexInstanceOptions } from '../types';
+
+/**
+ * Calls `handler` for every realtime invitation event matching `filter` (null for all events)
+ * Events are already applied to the shared invitation cache, so query hooks update on their own;
+ * use this for side effects such as toasts. Requires `config.realtime`.
+ */
+export function useInvitationEvents(
+  filter: InvitationEventFilter | null,
+  handler: (event: InvitationEvent) => void,
+  options: VortexInstanceOptions = {}
+): void {
+  const { client } = useVortexContext(options.instance);
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+
+  useEffect(() => {
+    return client.subscribeToInvitationEvents(event => {
+      if (matchesInvitationEvent(event, filterRef.current)) handlerRef.current(event);
+    });
+  }, [client]);
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useCallback } from 'react';
+import { useSyncExternalStore } from 'use-sync-external-store/shim';
+import { useVortexContext } from '../VortexContext';
+import { hashQueryKey } from '../cache';
+import { registerVortexRetry } from '../suspense';
+import type { InvitationQueryKey } from '../cache';
+import type { VortexApiError } from '../errors';
+import type { InvitationResult, InvitationTarget, VortexInstanceOptions } from '../types';
+
+export interface InvitationQueryOptions extends VortexInstanceOptions {
+  enabled?: boolean; // Set to false to skip fetching (default: true)
+}
+
+export interface InvitationQueryResult<T> {
+  data: T | undefined;
+  isLoading: boolean;   // No data yet and a fetch is pending
+  isFetching: boolean;  // A fetch is in flight (including background revalidation)
+  error: VortexApiError | null;
+  refetch: () => Promise<T | undefined>;
+}
+
+export interface SuspenseInvitationQueryResult<T> {
+  data: T;              // Always present: the component suspends until it is
+  isFetching: boolean;  // Background revalidation is in flight
+  error: VortexApiError | null;  // Failed revalidation (the stale data is kept)
+  refetch: () => Promise<T | undefined>;
+}
+
+/**
+ * Subscribes a component to a cached invitation query
+ * Data is shared (and requests deduplicated) across every component using the same key
+ */
+function useInvitationQuery<T>(key: InvitationQueryKey, options: InvitationQueryOptions = {}): InvitationQueryResult<T> {
+  const { cache } = useVortexContext(options.instance);
+  const enabled = options.enabled !== false;
+  const hash = hashQueryKey(key);
+  const subscribe = useCallback(
+    (listener: () => void) => cache.subscribe(key, listener),
+    // The hash captures every field of the key
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [cache, hash]
+  );
+  const getSnapshot = useCallback(
+    () => cache.getState<T>(key),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [cache, hash]
+  );
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    cache.fetch<T>(key).catch(() => {
+      // Error is exposed through the query state
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cache, hash, enabled]);
+
+  const refetch = useCallback(async () => {
+    try {
+      return await cache.fetch<T>(key, { force: true });
+    } catch {
+      return undefined;
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cache, hash]);
+
+  return {
+    data: state.data,
+    isLoading: enabled && state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    error: state.error,
+    refetch,
+  };
+}
+
+/**
+ * Declarative hook for the invitations of a group
+ */
+export function useGroupInvitations(
+  groupType: string,
+  groupId: string,
+  options?: InvitationQueryOptions
+): InvitationQueryResult<InvitationResult[]> {
+  return useInvitationQuery<InvitationResult[]>({ kind: 'group', groupType, groupId }, options);
+}
+
+/**
+ * Declarative hook for the invitations sent to a target
+ */
+export function useTargetInvitations(
+  targetType: InvitationTarget['type'],
+  targetValue: string,
+  options?: InvitationQueryOptions
+): InvitationQueryResult<InvitationResult[]> {
+  return useInvitationQuery<InvitationResult[]>({ kind: 'target', targetType, targetValue }, options);
+}
+
+/**
+ * Declarative hook for a single invitation
+ */
+export function useInvitation(
+  invitationId: string,
+  options?: InvitationQueryOptions
+): InvitationQueryResult<InvitationResult> {
+  return useInvitationQuery<InvitationResult>({ kind: 'invitation', invitationId }, options);
+}
+
+/**
+ * Suspends until the query has data, and throws its error to the nearest error boundary when it has none
+ * Thrown errors are registered so VortexErrorBoundary's retry refetches the query.
+ */
+function useSuspenseInvitationQuery<T>(
+  key: InvitationQueryKey,
+  options: VortexInstanceOptions = {}
+): SuspenseInvitationQueryResult<T> {
+  const { cache } = useVortexContext(options.instance);
+  const { data, isFetching, error, refetch } = useInvitationQuery<T>(key, { instance: options.instance });
+
+  if (data === undefined) {
+    if (error && !isFetching) {
+      registerVortexRetry(error, () => cache.fetch(key, { force: true }).then(() => undefined, () => undefined));
+      throw error;
+    }
+    // Joins the request in flight or starts it; the next render throws its error instead
+    throw cache.fetch<T>(key).catch(() => undefined);
+  }
+  return { data, isFetching, error, refetch };
+}
+
+/**
+ * Suspense counterpart of useGroupInvitations
+ */
+export function useSuspenseGroupInvitations(
+  groupType: string,
+  groupId: string,
+  options?: VortexInstanceOptions
+): SuspenseInvitationQueryResult<InvitationResult[]> {
+  return useSuspenseInvitationQuery<InvitationResult[]>({ kind: 'group', groupType, groupId }, options);
+}
+
+/**
+ * Suspense counterpart of useTargetInvitations
+ */
+export function useSuspenseTargetInvitations(
+  targetType: InvitationTarget['type'],
+  targetValue: string,
+  options?: VortexInstanceOptions
+): SuspenseInvitationQueryResult<InvitationResult[]> {
+  return useSuspenseInvitationQuery<InvitationResult[]>({ kind: 'target', targetType, targetValue }, options);
+}
+
+/**
+ * Suspense counterpart of useInvitation
+ */
+export function useSuspenseInvitation(
+  invitationId: string,
+  options?: VortexInstanceOptions
+): SuspenseInvitationQueryResult<InvitationResult> {
+  return useSuspenseInvitationQuery<InvitationResult>({ kind: 'invitation', invitationId }, options);
+}
@@ -1,152 +1,324 @@
 "use client";
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useVortexContext } from '../VortexContext';
-import type { InvitationTarget } from '../types';
+import { toVortexApiError, VortexAbortError } from '../errors';
+import type { VortexApiError } from '../errors';
+import { linkAbortSignal } from '../abort';
+import { serializeInvitationListOptions } from '../pagination';
+import { hashQueryKey } from '../cache';
+import type { InvitationQuerySnapshot } from '../cache';
+import type {
+  InvitationTarget,
+  InvitationResult,
+  InvitationListOptions,
+  InvitationPage,
+  GetInvitationsByGroup,
+  GetInvitationsByTarget,
+  BulkInvitationOptions,
+  BulkInvitationProgress,
+  BulkInvitationResult,
+  VortexCallOptions,
+  VortexInstanceOptions,
+} from '../types';
+
+export interface UseInvitationsOptions extends VortexInstanceOptions {
+  // Apply revoke/reinvite/group delete to the shared cache immediately and roll back if the server rejects them
+  optimistic?: boolean;
+}
+
+interface Operation {
+  controller: AbortController;
+  superseded: boolean;               // A newer call with the same key took over
+  snapshot: InvitationQuerySnapshot; // Cache state from before the first optimistic update of the key
+}
+
+// List calls with different pages or filters are separate operations, so they do not cancel each other
+function getListOperationKey(base: string, options: InvitationListOptions | undefined): string {
+  const query = options ? serializeInvitationListOptions(options) : '';
+  return query ? `${base}?${query}` : base;
+}
+
+// Keeps the base snapshot of a superseded call, so a rollback never restores another call's optimistic state
+function mergeSnapshots(base: InvitationQuerySnapshot, next: InvitationQuerySnapshot): InvitationQuerySnapshot {
+  const keys = new Set(base.map(({ key }) => hashQueryKey(key)));
+  return base.concat(next.filter(({ key }) => !keys.has(hashQueryKey(key))));
+}
 
 /**
  * Hook for managing invitations with built-in state management
+ * A newer call with the same operation key cancels the older one, and unmounting cancels every call in flight
  */
-export function useInvitations() {
-  const context = useVortexContext();
+export function useInvitations(options: UseInvitationsOptions = {}) {
+  const context = useVortexContext(options.instance);
+  const { optimistic = false } = options;
   const [loading, setLoading] = useState<Record<string, boolean>>({});
-  const [errors, setErrors] = useState<Record<string, Error | null>>({});
+  const [errors, setErrors] = useState<Record<string, VortexApiError | null>>({});
+  const [progress, setProgress] = useState<Record<string, BulkInvitationProgress>>({});
+
+  const operationsRef = useRef(new Map<string, Operation>());
+  // Latest bulk call per loading key, the one whose progress is shown (the key stays loading while any runs)
+  const bulkCallsRef = useRef({ count: 0, latest: new Map<string, Operation>() });
+  const mountedRef = useRef(true);
+  useEffect(() => {
+    mountedRef.current = true;
+    const operations = operationsRef.current;
+    return () => {
+      mountedRef.current = false;
+      operations.forEach(operation => operation.controller.abort());
+      operations.clear();
+    };
+  }, []);
 
   const setLoadingState = (key: string, isLoading: boolean) => {
     setLoading(prev => ({ ...prev, [key]: isLoading }));
   };
 
-  const setErrorState = (key: string, error: Error | null) => {
+  const setErrorState = (key: string, error: VortexApiError | null) => {
     setErrors(prev => ({ ...prev, [key]: error }));
   };
 
-  const getInvitationsByTarget = useCallback(async (
-    targetType: InvitationTarget['type'],
-    targetValue: string
+  // Registers a call under its key, cancelling the previous one; only the current call may update state
+  const beginOperation = useCallback((
+    key: string,
+    signal: AbortSignal | undefined,
+    snapshot: InvitationQuerySnapshot = []
   ) => {
-    const key = `getByTarget-${targetType}-${targetValue}`;
-    setLoadingState(key, true);
-    setErrorState(key, null);
-
-    try {
-      const result = await context.getInvitationsByTarget(targetType, targetValue);
-      return result;
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error('Failed to get invitations');
-      setErrorState(key, err);
-      throw err;
-    } finally {
-      setLoadingState(key, false);
+    const operations = operationsRef.current;
+    const previous = operations.get(key);
+    if (previous) {
+      previous.superseded = true;
+      previous.controller.abort();
     }
-  }, [context]);
 
-  const getInvitation = useCallback(async (invitationId: string) => {
-    const key = `get-${invitationId}`;
-    setLoadingState(key, true);
-    setErrorState(key, null);
+    const operation: Operation = {
+      controller: new AbortController(),
+      superseded: false,
+      snapshot: previous ? mergeSnapshots(previous.snapshot, snapshot) : snapshot,
+    };
+    operations.set(key, operation);
+    const unlink = linkAbortSignal(signal, operation.controller);
+    const isCurrent = () => mountedRef.current && operations.get(key) === operation;
 
-    try {
-      const result = await context.getInvitation(invitationId);
-      return result;
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error('Failed to get invitation');
-      setErrorState(key, err);
-      throw err;
-    } finally {
-      setLoadingState(key, false);
-    }
-  }, [context]);
+    return {
+      operation,
+      isCurrent,
+      end: () => {
+        unlink();
+        if (operations.get(key) === operation) operations.delete(key);
+      },
+    };
+  }, []);
 
-  const revokeInvitation = useCallback(async (invitationId: string) => {
-    const key = `revoke-${invitationId}`;
+  const runOperation = useCallback(async <T>(
+    key: string,
+    fallbackMessage: string,
+    callOptions: VortexCallOptions | undefined,
+    run: (callOptions: VortexCallOptions) => Promise<T>,
+    snapshot: InvitationQuerySnapshot = [],
+    invitationIds?: string[]  // Invitations the optimistic update patched; without them the whole snapshot is restored
+  ): Promise<T> => {
+    const { operation, isCurrent, end } = beginOperation(key, callOptions?.signal, snapshot);
     setLoadingState(key, true);
     setErrorState(key, null);
 
     try {
-      await context.revokeInvitation(invitationId);
+      return await run({ signal: operation.controller.signal, timeoutMs: callOptions?.timeoutMs });
     } catch (error) {
-      const err = error instanceof Error ? error : new Error('Failed to revoke invitation');
-      setErrorState(key, err);
+      // A superseding call has applied its own optimistic update. Patches roll back per invitation, keeping
+      // concurrent updates to the rest of the same lists; only list-wide updates restore whole entries.
+      if (!operation.superseded) {
+        if (invitationIds) {
+          context.cache.revertInvitations(operation.snapshot, invitationIds);
+        } else {
+          context.cache.restore(operation.snapshot);
+        }
+      }
+      const err = toVortexApiError(error, fallbackMessage);
+      if (isCurrent() && !(err instanceof VortexAbortError)) setErrorState(key, err);
       throw err;
     } finally {
-      setLoadingState(key, false);
+      if (isCurrent()) setLoadingState(key, false);
+      end();
     }
-  }, [context]);
+  }, [context, beginOperation]);
+
+  const getInvitationsByTarget = useCallback(((
+    targetType: InvitationTarget['type'],
+    targetValue: string,
+    options?: InvitationListOptions,
+    callOptions?: VortexCallOptions
+  ) => {
+    return runOperation<InvitationResult[] | InvitationPage>(
+      getListOperationKey(`getByTarget-${targetType}-${targetValue}`, options),
+      'Failed to get invitations',
+      callOptions,
+      signalOptions => options
+        ? context.getInvitationsByTarget(targetType, targetValue, options, signalOptions)
+        : context.getInvitationsByTarget(targetType, targetValue, undefined, signalOptions)
+    );
+  }) as GetInvitationsByTarget, [context, runOperation]);
+
+  const getInvitation = useCallback((invitationId: string, callOptions?: VortexCallOptions) => {
+    return runOperation(
+      `get-${invitationId}`,
+      'Failed to get invitation',
+      callOptions,
+      signalOptions => context.getInvitation(invitationId, signalOptions)
+    );
+  }, [context, runOperation]);
+
+  const revokeInvitation = useCallback((invitationId: string, callOptions?: VortexCallOptions) => {
+    const snapshot: InvitationQuerySnapshot = optimistic
+      ? context.cache.patchInvitations([invitationId], () => ({ deactivated: true }))
+      : [];
+
+    return runOperation(
+      `revoke-${invitationId}`,
+      'Failed to revoke invitation',
+      callOptions,
+      signalOptions => context.revokeInvitation(invitationId, signalOptions),
+      snapshot,
+      [invitationId]
+    );
+  }, [context, optimistic, runOperation]);
 
-  const acceptInvitations = useCallback(async (
+  const acceptInvitations = useCallback((
     invitationIds: string[],
-    target: InvitationTarget
+    target: InvitationTarget,
+    callOptions?: VortexCallOptions
   ) => {
-    const key = `accept-${invitationIds.join(',')}`;
-    setLoadingState(key, true);
-    setErrorState(key, null);
+    return runOperation(
+      `accept-${invitationIds.join(',')}`,
+      'Failed to accept invitations',
+      callOptions,
+      signalOptions => context.acceptInvitations(invitationIds, target, signalOptions)
+    );
+  }, [context, runOperation]);
 
-    try {
-      const result = await context.acceptInvitations(invitationIds, target);
-      return result;
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error('Failed to accept invitations');
-      setErrorState(key, err);
-      throw err;
-    } finally {
-      setLoadingState(key, false);
-    }
-  }, [context]);
+  const getInvitationsByGroup = useCallback(((
+    groupType: string,
+    groupId: string,
+    options?: InvitationListOptions,
+    callOptions?: VortexCallOptions
+  ) => {
+    return runOperation<InvitationResult[] | InvitationPage>(
+      getListOperationKey(`getByGroup-${groupType}-${groupId}`, options),
+      'Failed to get group invitations',
+      callOptions,
+      signalOptions => options
+        ? context.getInvitationsByGroup(groupType, groupId, options, signalOptions)
+        : context.getInvitationsByGroup(groupType, groupId, undefined, signalOptions)
+    );
+  }) as GetInvitationsByGroup, [context, runOperation]);
 
-  const getInvitationsByGroup = useCallback(async (groupType: string, groupId: string) => {
-    const key = `getByGroup-${groupType}-${groupId}`;
-    setLoadingState(key, true);
-    setErrorState(key, null);
+  const deleteInvitationsByGroup = useCallback((
+    groupType: string,
+    groupId: string,
+    callOptions?: VortexCallOptions
+  ) => {
+    const snapshot: InvitationQuerySnapshot = optimistic ? context.cache.clearGroup(groupType, groupId) : [];
 
-    try {
-      const result = await context.getInvitationsByGroup(groupType, groupId);
-      return result;
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error('Failed to get group invitations');
-      setErrorState(key, err);
-      throw err;
-    } finally {
-      setLoadingState(key, false);
-    }
-  }, [context]);
+    return runOperation(
+      `deleteByGroup-${groupType}-${groupId}`,
+      'Failed to delete group invitations',
+      callOptions,
+      signalOptions => context.deleteInvitationsByGroup(groupType, groupId, signalOptions),
+      snapshot
+    );
+  }, [context, optimistic, runOperation]);
 
-  const deleteInvitationsByGroup = useCallback(async (groupType: string, groupId: string) => {
-    const key = `deleteByGroup-${groupType}-${groupId}`;
-    setLoadingState(key, true);
-    setErrorState(key, null);
+  const reinvite = useCallback((invitationId: string, callOptions?: VortexCallOptions) => {
+    const snapshot: InvitationQuerySnapshot = optimistic
+      ? context.cache.patchInvitations([invitationId], invitation => ({
+          status: 'queued',
+          deliveryCount: invitation.deliveryCount + 1,
+        }))
+      : [];
 
-    try {
-      await context.deleteInvitationsByGroup(groupType, groupId);
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error('Failed to delete group invitations');
-      setErrorState(key, err);
-      throw err;
-    } finally {
-      setLoadingState(key, false);
-    }
-  }, [context]);
+    return runOperation(
+      `reinvite-${invitationId}`,
+      'Failed to reinvite',
+      callOptions,
+      signalOptions => context.reinvite(invitationId, signalOptions),
+      snapshot,
+      [invitationId]
+    );
+  }, [context, optimistic, runOperation]);
 
-  const reinvite = useCallback(async (invitationId: string) => {
-    const key = `reinvite-${invitationId}`;
+  // Bulk operations use a single loading key and never throw: failures are reported per id
+  // Each call is an operation of its own (<key>#<n>), so a second bulk call never cancels the first
+  const runBulk = useCallback(async <T>(
+    key: string,
+    invitationIds: string[],
+    operation: (ids: string[], options: BulkInvitationOptions) => Promise<BulkInvitationResult<T>[]>,
+    options: BulkInvitationOptions,
+    snapshot: InvitationQuerySnapshot
+  ) => {
+    const bulkCalls = bulkCallsRef.current;
+    const { operation: current, end } = beginOperation(`${key}#${++bulkCalls.count}`, options.signal, snapshot);
+    bulkCalls.latest.set(key, current);
+    const isCurrent = () => mountedRef.current && bulkCalls.latest.get(key) === current;
     setLoadingState(key, true);
-    setErrorState(key, null);
+    setProgress(prev => ({ ...prev, [key]: { total: invitationIds.length, completed: 0, succeeded: 0, failed: 0 } }));
 
     try {
-      const result = await context.reinvite(invitationId);
-      return result;
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error('Failed to reinvite');
-      setErrorState(key, err);
-      throw err;
+      const results = await operation(invitationIds, {
+        ...options,
+        signal: current.controller.signal,
+        onProgress: (latest, result) => {
+          if (isCurrent()) setProgress(prev => ({ ...prev, [key]: latest }));
+          options.onProgress?.(latest, result);
+        },
+      });
+      // Roll back only the rejected ids (failed or cancelled): the client has already invalidated the ones that changed
+      const rejectedIds = results.filter(result => result.status === 'rejected').map(result => result.invitationId);
+      if (rejectedIds.length > 0) context.cache.revertInvitations(current.snapshot, rejectedIds);
+      return results;
     } finally {
-      setLoadingState(key, false);
+      end();
+      let running = false;
+      operationsRef.current.forEach((_, operationKey) => {
+        running = running || operationKey.indexOf(`${key}#`) === 0;
+      });
+      if (mountedRef.current && !running) setLoadingState(key, false);
     }
-  }, [context]);
+  }, [context, beginOperation]);
+
+  const bulkRevoke = useCallback((invitationIds: string[], bulkOptions: BulkInvitationOptions = {}) => {
+    const snapshot: InvitationQuerySnapshot = optimistic
+      ? context.cache.patchInvitations(invitationIds, () => ({ deactivated: true }))
+      : [];
+    return runBulk('bulkRevoke', invitationIds, context.bulkRevoke, bulkOptions, snapshot);
+  }, [context, optimistic, runBulk]);
+
+  const bulkReinvite = useCallback((invitationIds: string[], bulkOptions: BulkInvitationOptions = {}) => {
+    const snapshot: InvitationQuerySnapshot = optimistic
+      ? context.cache.patchInvitations(invitationIds, invitation => ({
+          status: 'queued',
+          deliveryCount: invitation.deliveryCount + 1,
+        }))
+      : [];
+    return runBulk('bulkReinvite', invitationIds, context.bulkReinvite, bulkOptions, snapshot);
+  }, [context, optimistic, runBulk]);
 
-  return {
+  const clearError = useCallback((key: string) => {
+    setErrors(prev => ({ ...prev, [key]: null }));
+  }, []);
+
+  // Cancels the call in flight for an operation key (it rejects with a VortexAbortError), or every bulk call of a bulk key
+  const cancel = useCallback((key: string) => {
+    operationsRef.current.forEach((operation, operationKey) => {
+      if (operationKey === key || operationKey.indexOf(`${key}#`) === 0) operation.controller.abort();
+    });
+  }, []);
+
+  // A new object only when the state changes, so it can be shared through context
+  return useMemo(() => ({
     // State
     loading,
     errors,
+    progress, // Progress of bulk operations, keyed 'bulkRevoke' / 'bulkReinvite'
     isAuthenticated: context.isAuthenticated,
 
     // Actions
@@ -157,10 +329,29 @@ export function useInvitations() {
     getInvitationsByGroup,
     deleteInvitationsByGroup,
     reinvite,
+    bulkRevoke,
+    bulkReinvite,
 
     // Utilities
     isLoading: (key: string) => loading[key] || false,
     getError: (key: string) => errors[key] || null,
-    clearError: (key: string) => setErrorState(key, null),
-  };
-}
\ No newline at end of file
+    clearError,
+    cancel,
+  }), [
+    loading,
+    errors,
+    progress,
+    context.isAuthenticated,
+    getInvitationsByTarget,
+    getInvitation,
+    revokeInvitation,
+    acceptInvitations,
+    getInvitationsByGroup,
+    deleteInvitationsByGroup,
+    reinvite,
+    bulkRevoke,
+    bulkReinvite,
+    clearError,
+    cancel,
+  ]);
+}
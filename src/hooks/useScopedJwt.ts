@@ -0,0 +1,50 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useVortexContext } from '../VortexContext';
+import { getJwtContextKey } from '../utils';
+import type { JwtContext, VortexCallOptions, VortexInstanceOptions } from '../types';
+
+export interface UseScopedJwtOptions extends VortexInstanceOptions {
+  enabled?: boolean; // Set to false to skip fetching the token on mount (default: true)
+}
+
+/**
+ * Hook for a JWT scoped to a specific component/scope
+ * Each context gets its own token and refresh schedule, so several scoped widgets can coexist
+ */
+export function useScopedJwt(jwtContext: JwtContext, options: UseScopedJwtOptions = {}) {
+  const context = useVortexContext(options.instance);
+  const enabled = options.enabled !== false;
+  const key = getJwtContextKey(jwtContext);
+  const token = context.tokens[key];
+  const { refreshScopedJwt } = context;
+  const { componentId, scope, scopeType } = jwtContext;
+
+  const refresh = useCallback(
+    (callOptions?: VortexCallOptions) => refreshScopedJwt({ componentId, scope, scopeType }, callOptions),
+    [refreshScopedJwt, componentId, scope, scopeType]
+  );
+
+  // Fetch lazily when the hook mounts or its context changes (not again after clearAuth)
+  const requestedKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (enabled && !token) {
+      requestedKeyRef.current = key;
+      refresh();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, key]);
+
+  return {
+    // Token state
+    jwt: token?.jwt ?? null,
+    user: token?.user ?? null,
+    isAuthenticated: !!token?.jwt,
+    isLoading: token ? token.isLoading : enabled && requestedKeyRef.current !== key,
+    error: token?.error ?? null,
+
+    // JWT management
+    refreshJwt: refresh,
+  };
+}
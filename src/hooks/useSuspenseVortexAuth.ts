@@ -0,0 +1,80 @@
+"use client";
+
+import { useVortexContext } from '../VortexContext';
+import { VortexAuthError } from '../errors';
+import { registerVortexRetry } from '../suspense';
+import { getJwtContextKey } from '../utils';
+import type { VortexClient } from '../VortexClient';
+import type { VortexApiError } from '../errors';
+import type { AuthenticatedUser, JwtContext, VortexInstanceOptions } from '../types';
+
+interface SuspendedRefresh {
+  promise: Promise<void>;
+  settled: boolean;
+  error: VortexApiError | null;  // Thrown once the refresh settled without a token
+}
+
+// Refreshes started by suspended components, per client and token key
+// Kept outside React because a suspended component has no state to keep them in
+const suspendedRefreshes = new WeakMap<VortexClient, Map<string, SuspendedRefresh>>();
+
+function startRefresh(refreshes: Map<string, SuspendedRefresh>, key: string, refresh: () => Promise<void>): SuspendedRefresh {
+  const entry: SuspendedRefresh = { promise: Promise.resolve(), settled: false, error: null };
+  entry.promise = refresh().then(
+    () => {
+      entry.settled = true;
+    },
+    () => {
+      entry.settled = true;
+    }
+  );
+  refreshes.set(key, entry);
+  return entry;
+}
+
+/**
+ * Suspends until a valid JWT is available, refreshing it once if it is missing or expired
+ * With a context, waits for the token scoped to it (like useScopedJwt). A refresh that settles without
+ * a token throws to the nearest error boundary, whose retry refreshes again.
+ */
+export function useSuspenseVortexAuth<TExtra extends object = Record<never, never>>(
+  jwtContext?: JwtContext,
+  options: VortexInstanceOptions = {}
+) {
+  const vortex = useVortexContext(options.instance);
+  const { client, refreshJwt, refreshScopedJwt, clearAuth } = vortex;
+
+  const activeToken = client.getActiveToken();
+  const token = jwtContext ? vortex.tokens[getJwtContextKey(jwtContext)] : activeToken;
+  // Without a context, the refresh reuses the context of the top-level token
+  const refreshContext = jwtContext ?? activeToken?.context;
+  const key = getJwtContextKey(refreshContext);
+  const refresh = () => (jwtContext ? refreshScopedJwt(jwtContext) : refreshJwt(refreshContext));
+
+  let refreshes = suspendedRefreshes.get(client);
+  if (!refreshes) {
+    refreshes = new Map();
+    suspendedRefreshes.set(client, refreshes);
+  }
+
+  if (!token?.jwt || (token.expiresAt !== null && token.expiresAt <= Date.now())) {
+    const pending = refreshes.get(key) ?? startRefresh(refreshes, key, refresh);
+    if (!pending.settled) throw pending.promise;
+
+    if (!pending.error) {
+      pending.error = token?.error ?? new VortexAuthError('Could not obtain a Vortex JWT', { code: 'JWT_UNAVAILABLE' });
+      const tracked = refreshes;
+      registerVortexRetry(pending.error, () => startRefresh(tracked, key, refresh).promise);
+    }
+    throw pending.error;
+  }
+  // Later expiries start a new refresh
+  refreshes.delete(key);
+
+  return {
+    jwt: token.jwt,
+    user: token.user as AuthenticatedUser<TExtra> | null,
+    refreshJwt: refresh,
+    clearAuth,
+  };
+}
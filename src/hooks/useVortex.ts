@@ -1,11 +1,12 @@
 "use client";
 
 import { useVortexContext } from '../VortexContext';
+import type { VortexInstanceOptions } from '../types';
 
 /**
  * Main hook that provides access to the full Vortex context
  * Use this when you need access to all functionality
  */
-export function useVortex() {
-  return useVortexContext();
+export function useVortex(options: VortexInstanceOptions = {}) {
+  return useVortexContext(options.instance);
 }
\ No newline at end of file
@@ -1,17 +1,19 @@
 "use client";
 
 import { useVortexContext } from '../VortexContext';
+import type { AuthenticatedUser, VortexInstanceOptions } from '../types';
 
 /**
  * Hook focused on authentication state and JWT management
+ * `TExtra` types the custom claims that config.mapClaimsToUser adds to the user
  */
-export function useVortexAuth() {
-  const context = useVortexContext();
+export function useVortexAuth<TExtra extends object = Record<never, never>>(options: VortexInstanceOptions = {}) {
+  const context = useVortexContext(options.instance);
 
   return {
     // Authentication state
     jwt: context.jwt,
-    user: context.user,
+    user: context.user as AuthenticatedUser<TExtra> | null,
     isAuthenticated: context.isAuthenticated,
     isLoading: context.isLoading,
     error: context.error,
@@ -0,0 +1,12 @@
+"use client";
+
+import { useVortexContext } from '../VortexContext';
+import type { VortexClient } from '../VortexClient';
+import type { VortexInstanceOptions } from '../types';
+
+/**
+ * Hook for the VortexClient behind the nearest (or named) provider (e.g., to hand it to non-React code)
+ */
+export function useVortexClient(options: VortexInstanceOptions = {}): VortexClient {
+  return useVortexContext(options.instance).client;
+}
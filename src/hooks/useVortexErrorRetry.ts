@@ -0,0 +1,19 @@
+"use client";
+
+import { useCallback, useContext } from 'react';
+import { VortexContext, VortexInstancesContext } from '../VortexContext';
+import { retryVortexError } from '../suspense';
+import type { VortexInstanceOptions } from '../types';
+
+/**
+ * Returns a function re-running the query or JWT refresh behind an error, for error boundaries of your own
+ * (e.g. a Next.js error.tsx: `retry(error).then(reset)`). Outside a provider, only Suspense hook errors are retried.
+ */
+export function useVortexErrorRetry(options: VortexInstanceOptions = {}) {
+  // Read without useVortexContext: route-level boundaries may sit above the provider
+  const defaultContext = useContext(VortexContext);
+  const instances = useContext(VortexInstancesContext);
+  const vortex = options.instance === undefined ? defaultContext : instances[options.instance] ?? null;
+
+  return useCallback((error: unknown) => retryVortexError(error, vortex), [vortex]);
+}
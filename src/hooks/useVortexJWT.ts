@@ -2,25 +2,25 @@
 
 import { useCallback } from 'react';
 import { useVortexContext } from '../VortexContext';
+import { getJwtExpiry } from '../utils';
+import type { VortexInstanceOptions } from '../types';
 
 /**
  * Hook specifically for JWT management
  * Useful when you only need JWT functionality
  */
-export function useVortexJWT() {
-  const context = useVortexContext();
+export function useVortexJWT(options: VortexInstanceOptions = {}) {
+  const context = useVortexContext(options.instance);
 
   const isExpiringSoon = useCallback((bufferMinutes: number = 5): boolean => {
     if (!context.jwt) return true;
 
     try {
       // Decode JWT payload to check expiration
-      const payload = JSON.parse(atob(context.jwt.split('.')[1]));
-      const exp = payload.exp || payload.expires;
+      const expirationTime = getJwtExpiry(context.jwt);
 
-      if (!exp) return false;
+      if (expirationTime === null) return false;
 
-      const expirationTime = typeof exp === 'number' ? exp * 1000 : new Date(exp).getTime();
       const bufferTime = bufferMinutes * 60 * 1000;
 
       return Date.now() + bufferTime >= expirationTime;
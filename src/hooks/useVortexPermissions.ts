@@ -0,0 +1,32 @@
+"use client";
+
+import { useMemo } from 'react';
+import { useVortexContext } from '../VortexContext';
+import { getJwtContextKey } from '../utils';
+import { hasVortexScope, hasVortexRole, isVortexGroupMember } from '../permissions';
+import type { AuthenticatedUser, JwtContext, VortexInstanceOptions } from '../types';
+
+export interface VortexPermissions {
+  user: AuthenticatedUser | null;
+  hasScope: (scope: string | string[]) => boolean; // Every given admin scope
+  hasRole: (role: string | string[]) => boolean;   // Any of the given roles
+  isMemberOf: (groupType: string, groupId?: string) => boolean;
+}
+
+/**
+ * Permission checks against the signed-in user
+ * Pass a JwtContext to check the token scoped to it (e.g., the user's scopes in one workspace)
+ */
+export function useVortexPermissions(jwtContext?: JwtContext, options: VortexInstanceOptions = {}): VortexPermissions {
+  const context = useVortexContext(options.instance);
+  const user = jwtContext
+    ? context.tokens[getJwtContextKey(jwtContext)]?.user ?? null
+    : context.user;
+
+  return useMemo(() => ({
+    user,
+    hasScope: scope => hasVortexScope(user, scope),
+    hasRole: role => hasVortexRole(user, role),
+    isMemberOf: (groupType, groupId) => isVortexGroupMember(user, groupType, groupId),
+  }), [user]);
+}
@@ -1,20 +1,125 @@
 "use client";
 
 export { VortexProvider } from './VortexProvider';
-export { VortexContext, useVortexContext } from './VortexContext';
+export { VortexClient, resolveVortexConfig } from './VortexClient';
+export { VortexContext, VortexInstancesContext, useVortexContext } from './VortexContext';
 export { useVortex } from './hooks/useVortex';
 export { useVortexAuth } from './hooks/useVortexAuth';
 export { useInvitations } from './hooks/useInvitations';
 export { useVortexJWT } from './hooks/useVortexJWT';
-export { validateVortexApiConfiguration, isMissingRouteError } from './utils';
+export { useScopedJwt } from './hooks/useScopedJwt';
+export { useVortexClient } from './hooks/useVortexClient';
+export {
+  useGroupInvitations,
+  useTargetInvitations,
+  useInvitation,
+  useSuspenseGroupInvitations,
+  useSuspenseTargetInvitations,
+  useSuspenseInvitation,
+} from './hooks/useInvitationQueries';
+export { useSuspenseVortexAuth } from './hooks/useSuspenseVortexAuth';
+export { useVortexErrorRetry } from './hooks/useVortexErrorRetry';
+export { useInfiniteGroupInvitations } from './hooks/useInfiniteGroupInvitations';
+export { useInvitationEvents } from './hooks/useInvitationEvents';
+export { useVortexPermissions } from './hooks/useVortexPermissions';
+export { useInvitationAcceptance, parseInvitationIdFromUrl } from './hooks/useInvitationAcceptance';
+export { VortexGate } from './components/VortexGate';
+export { RequireVortexAuth } from './components/RequireVortexAuth';
+export { VortexErrorBoundary } from './components/VortexErrorBoundary';
+export { InvitationList } from './components/InvitationList';
+export { InvitationRow } from './components/InvitationRow';
+export { InvitationStatus, getInvitationDisplayStatus, defaultInvitationStatusLabels } from './components/InvitationStatus';
+export { RevokeButton } from './components/RevokeButton';
+export { ReinviteButton } from './components/ReinviteButton';
+export { hasVortexScope, hasVortexRole, isVortexGroupMember } from './permissions';
+export { InvitationQueryCache } from './cache';
+export { CrossTabChannel } from './crossTab';
+export { createMemoryPersistence, createSessionStoragePersistence, createStoragePersistence } from './persistence';
+export { bearerTokenInterceptor, headersInterceptor, credentialsInterceptor } from './transport';
+export { mergeInvitationPages } from './pagination';
+export { createFetchSseTransport, createSseTransport, createWebSocketTransport } from './realtime';
+export {
+  validateInvitationResult,
+  validateInvitationGroup,
+  validateInvitationTarget,
+  normalizeInvitationResult,
+  normalizeInvitations,
+} from './validation';
+export { validateVortexApiConfiguration, isMissingRouteError, getJwtContextKey, decodeVortexJwt } from './utils';
+export { diagnoseVortexRoutes } from './diagnostics';
+export { retryVortexError } from './suspense';
+export {
+  VortexApiError,
+  VortexNetworkError,
+  VortexAuthError,
+  VortexTimeoutError,
+  VortexAbortError,
+  VortexValidationError,
+  VortexRouteError,
+} from './errors';
 
 export type {
   VortexConfig,
   VortexContextValue,
   VortexProviderProps,
+  VortexInstanceOptions,
   AuthenticatedUser,
+  VortexUserClaims,
+  VortexJwtClaims,
   InvitationTarget,
   InvitationResult,
   InvitationGroup,
+  InvitationListOptions,
+  InvitationPage,
+  InvitationSortField,
+  GetInvitationsByGroup,
+  GetInvitationsByTarget,
+  BulkInvitationOptions,
+  BulkInvitationProgress,
+  BulkInvitationResult,
+  VortexCallOptions,
   ApiResponse,
-} from './types';
\ No newline at end of file
+  JwtContext,
+  JwtTokenState,
+  VortexFetcher,
+  VortexRequest,
+  VortexResponse,
+  VortexInterceptor,
+  VortexInterceptorContext,
+  VortexRequestLogEntry,
+  VortexRouteStatus,
+  VortexRouteReport,
+  VortexTokenPersistence,
+  DehydratedVortexState,
+  InvitationEvent,
+  InvitationEventType,
+  InvitationEventFilter,
+  VortexRealtimeTransport,
+  VortexRealtimeConnection,
+  VortexRealtimeConnectOptions,
+} from './types';
+
+export type { VortexClientState, VortexClientOptions } from './VortexClient';
+export type { VortexApiErrorDetails, VortexValidationIssue } from './errors';
+export type { NormalizedInvitationResult, NormalizedInvitationPage } from './validation';
+export type { VortexRouteDiagnosticsOptions } from './diagnostics';
+export type { CrossTabMessage, CrossTabChannelOptions } from './crossTab';
+export type { InvitationQueryKey, InvitationQueryState, InvitationQuerySnapshot } from './cache';
+export type { UseInvitationsOptions } from './hooks/useInvitations';
+export type { UseScopedJwtOptions } from './hooks/useScopedJwt';
+export type {
+  InvitationQueryOptions,
+  InvitationQueryResult,
+  SuspenseInvitationQueryResult,
+} from './hooks/useInvitationQueries';
+export type { UseInfiniteGroupInvitationsOptions, InfiniteInvitationsResult } from './hooks/useInfiniteGroupInvitations';
+export type { VortexPermissions } from './hooks/useVortexPermissions';
+export type {
+  InvitationAcceptanceStatus,
+  InvitationAcceptanceResult,
+  InvitationIdLocation,
+  UseInvitationAcceptanceOptions,
+} from './hooks/useInvitationAcceptance';
+export type { VortexGateProps } from './components/VortexGate';
+export type { RequireVortexAuthProps } from './components/RequireVortexAuth';
+export type { VortexErrorBoundaryProps, VortexErrorBoundaryFallbackProps } from './components/VortexErrorBoundary';
\ No newline at end of file
@@ -0,0 +1,74 @@
+"use client";
+
+import type { InvitationListOptions, InvitationPage, InvitationResult } from './types';
+
+function toIsoString(value: string | Date): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function toList<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Serializes list options into a stable query string (without the leading "?")
+ * The same options always produce the same string, so it doubles as part of the cache key
+ */
+export function serializeInvitationListOptions(options: InvitationListOptions): string {
+  const params: [string, string][] = [];
+
+  if (options.cursor) params.push(['cursor', options.cursor]);
+  if (options.limit !== undefined) params.push(['limit', String(options.limit)]);
+  if (options.status !== undefined) params.push(['status', toList(options.status).join(',')]);
+  if (options.deliveryTypes !== undefined) params.push(['deliveryTypes', options.deliveryTypes.join(',')]);
+  if (options.invitationType !== undefined) params.push(['invitationType', options.invitationType]);
+  if (options.deactivated !== undefined) params.push(['deactivated', String(options.deactivated)]);
+  if (options.createdAfter !== undefined) params.push(['createdAfter', toIsoString(options.createdAfter)]);
+  if (options.createdBefore !== undefined) params.push(['createdBefore', toIsoString(options.createdBefore)]);
+  if (options.sortBy !== undefined) params.push(['sortBy', options.sortBy]);
+  if (options.sortOrder !== undefined) params.push(['sortOrder', options.sortOrder]);
+
+  return params.map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join('&');
+}
+
+/**
+ * Normalizes a list response into a page (responses without a cursor are treated as the last page)
+ */
+export function toInvitationPage(response: {
+  invitations?: InvitationResult[];
+  nextCursor?: string | null;
+  totalCount?: number;
+}): InvitationPage {
+  return {
+    invitations: response.invitations || [],
+    nextCursor: response.nextCursor ?? null,
+    ...(response.totalCount !== undefined ? { totalCount: response.totalCount } : {}),
+  };
+}
+
+/**
+ * Invitations held by cached list data, whether a plain array or a page
+ */
+export function getInvitationList(data: unknown): InvitationResult[] | null {
+  if (Array.isArray(data)) return data as InvitationResult[];
+  if (data && typeof data === 'object' && Array.isArray((data as InvitationPage).invitations)) {
+    return (data as InvitationPage).invitations;
+  }
+  return null;
+}
+
+/**
+ * Concatenates pages in order, keeping the first occurrence of an invitation that shifted between pages
+ */
+export function mergeInvitationPages(pages: InvitationPage[]): InvitationResult[] {
+  const seen = new Set<string>();
+  const invitations: InvitationResult[] = [];
+  pages.forEach(page => {
+    page.invitations.forEach(invitation => {
+      if (seen.has(invitation.id)) return;
+      seen.add(invitation.id);
+      invitations.push(invitation);
+    });
+  });
+  return invitations;
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import type { AuthenticatedUser } from './types';
+
+function toList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Whether the user holds every given admin scope (e.g., 'autojoin')
+ */
+export function hasVortexScope(user: AuthenticatedUser | null | undefined, scope: string | string[]): boolean {
+  const scopes = user?.adminScopes || [];
+  return toList(scope).every(required => scopes.indexOf(required) !== -1);
+}
+
+/**
+ * Whether the user has any of the given roles
+ */
+export function hasVortexRole(user: AuthenticatedUser | null | undefined, role: string | string[]): boolean {
+  return !!user?.role && toList(role).indexOf(user.role) !== -1;
+}
+
+/**
+ * Whether the user belongs to a group of the given type (and id, matched against `groupId` or the legacy `id`)
+ */
+export function isVortexGroupMember(
+  user: AuthenticatedUser | null | undefined,
+  groupType: string,
+  groupId?: string
+): boolean {
+  return (user?.groups || []).some(group =>
+    group.type === groupType &&
+    (groupId === undefined || group.groupId === groupId || group.id === groupId)
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { getJwtExpiry } from './utils';
+import type { JwtContext, VortexTokenPersistence } from './types';
+
+// Storage key holding every persisted token of the provider
+export const PERSISTED_TOKENS_KEY = 'vortex:tokens';
+
+export interface PersistedToken {
+  jwt: string;
+  context?: JwtContext;
+  active: boolean; // Whether this was the top-level token
+}
+
+/**
+ * Keeps tokens in memory only: they survive provider remounts but not page loads
+ */
+export function createMemoryPersistence(): VortexTokenPersistence {
+  const values = new Map<string, string>();
+  return {
+    get: key => values.get(key) ?? null,
+    set: (key, value) => {
+      values.set(key, value);
+    },
+    remove: key => {
+      values.delete(key);
+    },
+  };
+}
+
+/**
+ * Persists tokens in any Storage-compatible backend (e.g., localStorage or a cookie wrapper)
+ * Storage errors (private mode, quota) are ignored and the provider simply falls back to fetching
+ */
+export function createStoragePersistence(
+  getStorage: () => Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> | null | undefined
+): VortexTokenPersistence {
+  return {
+    get: key => {
+      try {
+        return getStorage()?.getItem(key) ?? null;
+      } catch {
+        return null;
+      }
+    },
+    set: (key, value) => {
+      try {
+        getStorage()?.setItem(key, value);
+      } catch {
+        // Ignore storage failures
+      }
+    },
+    remove: key => {
+      try {
+        getStorage()?.removeItem(key);
+      } catch {
+        // Ignore storage failures
+      }
+    },
+  };
+}
+
+/**
+ * Persists tokens in sessionStorage: they survive reloads but not closing the tab
+ */
+export function createSessionStoragePersistence(): VortexTokenPersistence {
+  return createStoragePersistence(() => (typeof window !== 'undefined' ? window.sessionStorage : null));
+}
+
+/**
+ * Parses a persisted token record, dropping tokens that expired or have no exp claim to check
+ */
+export function parsePersistedTokens(raw: string | null): Record<string, PersistedToken> {
+  if (!raw) return {};
+
+  const tokens: Record<string, PersistedToken> = {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, PersistedToken>;
+    Object.keys(parsed).forEach(key => {
+      const token = parsed[key];
+      try {
+        const expiresAt = token && typeof token.jwt === 'string' ? getJwtExpiry(token.jwt) : null;
+        if (expiresAt !== null && expiresAt > Date.now()) {
+          tokens[key] = token;
+        }
+      } catch {
+        // Undecodable token: never rehydrate it
+      }
+    });
+  } catch {
+    // Corrupted record: start from scratch
+  }
+  return tokens;
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import type {
+  InvitationEvent,
+  InvitationEventFilter,
+  InvitationEventType,
+  VortexRealtimeConnectOptions,
+  VortexRealtimeTransport,
+} from './types';
+
+export const INVITATION_EVENT_TYPES: InvitationEventType[] = [
+  'invitation.status_changed',
+  'invitation.viewed',
+  'invitation.clicked',
+  'invitation.updated',
+];
+
+/**
+ * Appends the JWT as an `access_token` query parameter (EventSource and WebSocket cannot send headers)
+ * Opt-in: URLs end up in proxy and server logs, so prefer cookies where the stream is same-site
+ */
+function withAccessToken(url: string, jwt: string | null, enabled: boolean | undefined): string {
+  if (!jwt || !enabled) return url;
+  return `${url}${url.indexOf('?') === -1 ? '?' : '&'}access_token=${encodeURIComponent(jwt)}`;
+}
+
+// Parses a message payload; the SSE event name is used when the payload has no type
+function parseInvitationEvent(data: unknown, eventName?: string): InvitationEvent | null {
+  try {
+    const payload = typeof data === 'string' ? JSON.parse(data) : data;
+    const event = { ...payload, type: payload.type || eventName } as InvitationEvent;
+    return event.invitationId && event.type ? { ...event, changes: event.changes || {} } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Splits one Server-Sent Events block into its event name and data lines (comments and ids are ignored)
+function parseSseBlock(block: string): { name: string | undefined; data: string } | null {
+  let name: string | undefined;
+  const data: string[] = [];
+  block.split(/\r?\n/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator === 0) return;
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') name = value;
+    if (field === 'data') data.push(value);
+  });
+  return data.length > 0 ? { name: name === 'message' ? undefined : name, data: data.join('\n') } : null;
+}
+
+export function matchesInvitationEvent(event: InvitationEvent, filter: InvitationEventFilter | null | undefined): boolean {
+  if (!filter) return true;
+  if (filter.invitationIds && filter.invitationIds.indexOf(event.invitationId) === -1) return false;
+  if (filter.types && filter.types.indexOf(event.type) === -1) return false;
+  return true;
+}
+
+/**
+ * Server-Sent Events over fetch (the default), authenticated with the JWT as a Bearer Authorization header
+ * Events may be sent unnamed or named after their type (e.g., `event: invitation.viewed`)
+ */
+export function createFetchSseTransport(
+  options: { credentials?: RequestCredentials; headers?: Record<string, string> } = {}
+): VortexRealtimeTransport {
+  return {
+    connect: ({ url, jwt, onOpen, onEvent, onError }: VortexRealtimeConnectOptions) => {
+      if (typeof fetch === 'undefined' || typeof TextDecoder === 'undefined') {
+        throw new Error('Streaming fetch is not available in this environment');
+      }
+
+      const controller = new AbortController();
+      let closed = false;
+      const read = async () => {
+        const response = await fetch(url, {
+          headers: { Accept: 'text/event-stream', ...(jwt ? { Authorization: `Bearer ${jwt}` } : {}), ...options.headers },
+          credentials: options.credentials,
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Realtime stream responded with status ${response.status}`);
+        }
+        onOpen();
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const blocks = buffer.split(/\r?\n\r?\n/);
+          buffer = blocks.pop()!;
+          blocks.forEach(block => {
+            const message = parseSseBlock(block);
+            const event = message && parseInvitationEvent(message.data, message.name);
+            if (event) onEvent(event);
+          });
+        }
+        // The server ended the stream: reconnect like after any other drop
+        throw new Error('Realtime stream closed');
+      };
+      read().catch(error => {
+        if (!closed) onError(error);
+      });
+
+      return {
+        close: () => {
+          closed = true;
+          controller.abort();
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Server-Sent Events over EventSource, for streams authenticated by cookies
+ * EventSource cannot send headers: the JWT is only sent with `accessTokenInUrl`.
+ */
+export function createSseTransport(
+  options: { withCredentials?: boolean; accessTokenInUrl?: boolean } = {}
+): VortexRealtimeTransport {
+  return {
+    connect: ({ url, jwt, onOpen, onEvent, onError }: VortexRealtimeConnectOptions) => {
+      if (typeof EventSource === 'undefined') {
+        throw new Error('EventSource is not available in this environment');
+      }
+
+      const source = new EventSource(withAccessToken(url, jwt, options.accessTokenInUrl), { withCredentials: options.withCredentials });
+      const handleMessage = (message: MessageEvent) => {
+        const event = parseInvitationEvent(message.data, message.type === 'message' ? undefined : message.type);
+        if (event) onEvent(event);
+      };
+
+      source.onopen = () => onOpen();
+      source.onmessage = handleMessage;
+      INVITATION_EVENT_TYPES.forEach(type => source.addEventListener(type, handleMessage as EventListener));
+      // EventSource would silently retry on its own: close it and let the client apply jwtBackoff
+      source.onerror = error => {
+        source.close();
+        onError(error);
+      };
+
+      return { close: () => source.close() };
+    },
+  };
+}
+
+/**
+ * WebSocket transport; `url` defaults to the stream URL with its http(s) scheme switched to ws(s)
+ */
+export function createWebSocketTransport(
+  options: { url?: string; protocols?: string | string[]; accessTokenInUrl?: boolean } = {}
+): VortexRealtimeTransport {
+  return {
+    connect: ({ url, jwt, onOpen, onEvent, onError }: VortexRealtimeConnectOptions) => {
+      if (typeof WebSocket === 'undefined') {
+        throw new Error('WebSocket is not available in this environment');
+      }
+
+      let resolved = options.url || url;
+      if (!/^wss?:/.test(resolved)) {
+        const absolute = typeof window !== 'undefined' ? new URL(resolved, window.location.href).href : resolved;
+        resolved = absolute.replace(/^http/, 'ws');
+      }
+
+      let closed = false;
+      const socket = new WebSocket(withAccessToken(resolved, jwt, options.accessTokenInUrl), options.protocols);
+      socket.onopen = () => onOpen();
+      socket.onmessage = message => {
+        const event = parseInvitationEvent(message.data);
+        if (event) onEvent(event);
+      };
+      socket.onclose = closeEvent => {
+        if (!closed) onError(closeEvent);
+      };
+
+      return {
+        close: () => {
+          closed = true;
+          socket.close();
+        },
+      };
+    },
+  };
+}
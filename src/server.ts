@@ -0,0 +1,40 @@
+import type { DehydratedVortexState, InvitationResult, InvitationTarget } from './types';
+
+// Server-safe entry point (no "use client"): builds provider state in React Server Components
+
+export interface DehydrateVortexStateInput {
+  groups?: { groupType: string; groupId: string; invitations: InvitationResult[] }[];
+  targets?: { targetType: InvitationTarget['type']; targetValue: string; invitations: InvitationResult[] }[];
+  invitations?: InvitationResult[];
+  updatedAt?: number; // When the data was fetched (default: now)
+}
+
+/**
+ * Builds the `initialState` prop of VortexProvider from prefetched invitation data
+ *
+ * @example
+ * // app/team/[id]/layout.tsx (server component)
+ * const invitations = await vortex.getInvitationsByGroup('team', params.id);
+ * const initialState = dehydrateVortexState({
+ *   groups: [{ groupType: 'team', groupId: params.id, invitations }],
+ * });
+ * return <VortexProvider initialJwt={jwt} initialState={initialState}>{children}</VortexProvider>;
+ */
+export function dehydrateVortexState(input: DehydrateVortexStateInput): DehydratedVortexState {
+  const updatedAt = input.updatedAt ?? Date.now();
+  const queries: DehydratedVortexState['queries'] = [];
+
+  (input.groups || []).forEach(({ groupType, groupId, invitations }) => {
+    queries.push({ key: { kind: 'group', groupType, groupId }, data: invitations, updatedAt });
+  });
+  (input.targets || []).forEach(({ targetType, targetValue, invitations }) => {
+    queries.push({ key: { kind: 'target', targetType, targetValue }, data: invitations, updatedAt });
+  });
+  (input.invitations || []).forEach(invitation => {
+    queries.push({ key: { kind: 'invitation', invitationId: invitation.id }, data: invitation, updatedAt });
+  });
+
+  return { queries };
+}
+
+export type { DehydratedVortexState } from './types';
@@ -0,0 +1,32 @@
+"use client";
+
+import { VortexAuthError } from './errors';
+import type { VortexContextValue } from './types';
+
+// How to re-run whatever produced an error thrown by a Suspense hook (its query, or its JWT refresh)
+const retries = new WeakMap<object, () => Promise<void>>();
+
+export function registerVortexRetry(error: object, retry: () => Promise<void>): void {
+  retries.set(error, retry);
+}
+
+/**
+ * Re-runs the work behind an error caught by an error boundary
+ * Errors thrown by Suspense hooks re-run their own query or JWT refresh; any other VortexAuthError refreshes
+ * the top-level JWT. Never rejects: a retry that fails again surfaces on the next render.
+ */
+export async function retryVortexError(
+  error: unknown,
+  vortex?: Pick<VortexContextValue, 'client' | 'refreshJwt'> | null
+): Promise<void> {
+  const retry = error && typeof error === 'object' ? retries.get(error) : undefined;
+  try {
+    if (retry) {
+      await retry();
+    } else if (error instanceof VortexAuthError && vortex) {
+      await vortex.refreshJwt(vortex.client.getActiveToken()?.context);
+    }
+  } catch {
+    // The next render reports the outcome
+  }
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import React from 'react';
+import { useEffect, useRef } from 'react';
+import { VortexProvider } from '../VortexProvider';
+import { VortexClient } from '../VortexClient';
+import { bearerTokenInterceptor } from '../transport';
+import { createFakeVortexBackend } from './fakeBackend';
+import type { FakeVortexBackend } from './fakeBackend';
+import type { AuthenticatedUser, VortexConfig, DehydratedVortexState } from '../types';
+
+export interface MockVortexProviderProps {
+  children: React.ReactNode;
+  name?: string; // Registers a named instance (see VortexProvider)
+  // Backend answering every call (default: a fresh createFakeVortexBackend())
+  backend?: FakeVortexBackend;
+  // Signed-in user; null renders signed out. Changing it signs in/out again (default: the backend's user)
+  user?: AuthenticatedUser | null;
+  // Merged over the test defaults (fake fetcher and realtime stream, bearer tokens, no refresh timers)
+  config?: VortexConfig;
+  initialState?: DehydratedVortexState;
+  // Receives the underlying client, e.g. to drive it imperatively from a test
+  onClient?: (client: VortexClient) => void;
+}
+
+/**
+ * VortexProvider backed by an in-memory fake backend, for component tests and stories
+ *
+ * @example
+ * const backend = createFakeVortexBackend();
+ * backend.addInvitation({ groups: [createInvitationGroup({ type: 'team', groupId: 't-1' })] });
+ * render(<MockVortexProvider backend={backend}><TeamInvitations teamId="t-1" /></MockVortexProvider>);
+ */
+export function MockVortexProvider(props: MockVortexProviderProps) {
+  const { children, name, user, config, initialState, onClient } = props;
+
+  const backendRef = useRef<FakeVortexBackend | null>(null);
+  if (!backendRef.current) {
+    backendRef.current = props.backend ?? createFakeVortexBackend();
+  }
+  const backend = backendRef.current;
+
+  // Created once, signed in synchronously so the first render is authenticated
+  const clientRef = useRef<VortexClient | null>(null);
+  if (!clientRef.current) {
+    if (user !== undefined) backend.setUser(user);
+    clientRef.current = new VortexClient(
+      {
+        apiBaseUrl: '/api/vortex',
+        refreshJwtInterval: 0,
+        fetcher: backend.fetcher,
+        realtime: { transport: backend.realtime },
+        ...config,
+        interceptors: [bearerTokenInterceptor(), ...(config?.interceptors || [])],
+      },
+      { initialJwt: backend.getUser() ? backend.issueToken() : undefined }
+    );
+  }
+  const client = clientRef.current;
+
+  useEffect(() => {
+    onClient?.(client);
+    // Report the client once
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [client]);
+
+  // Re-authenticate when the test switches users after mount
+  const userRef = useRef(user);
+  useEffect(() => {
+    if (userRef.current === user) return;
+    userRef.current = user;
+
+    if (user === null) {
+      backend.setUser(null);
+      client.clearAuth();
+    } else {
+      if (user) backend.setUser(user);
+      client.refreshJwt();
+    }
+  }, [backend, client, user]);
+
+  return (
+    <VortexProvider name={name} client={client} initialState={initialState}>
+      {children}
+    </VortexProvider>
+  );
+}
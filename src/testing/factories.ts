@@ -0,0 +1,85 @@
+import type { AuthenticatedUser, InvitationGroup, InvitationResult } from '../types';
+
+let sequence = 0;
+
+function nextId(prefix: string): string {
+  sequence += 1;
+  return `${prefix}-${sequence}`;
+}
+
+/**
+ * Builds an InvitationGroup with unique ids; any field can be overridden
+ */
+export function createInvitationGroup(overrides: Partial<InvitationGroup> = {}): InvitationGroup {
+  const groupId = overrides.groupId ?? nextId('group');
+  return {
+    id: nextId('vortex-group'),
+    accountId: 'account-1',
+    groupId,
+    type: 'team',
+    name: `Group ${groupId}`,
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * Builds a delivered single-use email InvitationResult; any field can be overridden
+ */
+export function createInvitationResult(overrides: Partial<InvitationResult> = {}): InvitationResult {
+  const id = overrides.id ?? nextId('inv');
+  return {
+    id,
+    accountId: 'account-1',
+    clickThroughs: 0,
+    configurationAttributes: null,
+    attributes: null,
+    createdAt: new Date().toISOString(),
+    deactivated: false,
+    deliveryCount: 1,
+    deliveryTypes: ['email'],
+    foreignCreatorId: 'user-1',
+    invitationType: 'single_use',
+    modifiedAt: null,
+    status: 'delivered',
+    target: [{ type: 'email', value: `${id}@example.com` }],
+    views: 0,
+    widgetConfigurationId: 'widget-1',
+    projectId: 'project-1',
+    groups: [],
+    accepts: [],
+    ...overrides,
+  };
+}
+
+export interface CreateTestJwtOptions {
+  expiresInMs?: number | null; // Lifetime from now; negative for an already expired token, null for no exp claim (default: 1 hour)
+}
+
+/**
+ * Builds an unsigned but well-formed JWT carrying the given user claims
+ * The signature is random filler: tokens decode like real ones but must never be verified
+ */
+export function createTestJwt(
+  claims: Partial<AuthenticatedUser> & Record<string, unknown> = {},
+  options: CreateTestJwtOptions = {}
+): string {
+  const expiresInMs = options.expiresInMs === undefined ? 60 * 60 * 1000 : options.expiresInMs;
+  const now = Date.now();
+  const payload = {
+    userId: 'user-1',
+    iat: Math.floor(now / 1000),
+    ...(expiresInMs !== null ? { exp: Math.floor((now + expiresInMs) / 1000) } : {}),
+    ...claims,
+  };
+
+  const header = encodeBase64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const signature = encodeBase64Url(nextId('signature'));
+  return `${header}.${encodeBase64Url(JSON.stringify(payload))}.${signature}`;
+}
+
+// Unpadded base64url of the UTF-8 bytes, like real JWT segments
+function encodeBase64Url(value: string): string {
+  const binary = encodeURIComponent(value).replace(/%([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
@@ -0,0 +1,460 @@
+import { createInvitationResult, createTestJwt } from './factories';
+import { decodeVortexJwt } from '../utils';
+import type {
+  AuthenticatedUser,
+  InvitationEvent,
+  InvitationResult,
+  InvitationTarget,
+  VortexFetcher,
+  VortexRealtimeConnectOptions,
+  VortexRealtimeTransport,
+} from '../types';
+
+/**
+ * Routes served by the fake backend, named after the client methods that call them
+ */
+export type FakeVortexRoute =
+  | 'jwt'
+  | 'getInvitationsByTarget'
+  | 'getInvitation'
+  | 'revokeInvitation'
+  | 'acceptInvitations'
+  | 'getInvitationsByGroup'
+  | 'deleteInvitationsByGroup'
+  | 'reinvite';
+
+export interface FakeVortexFailure {
+  status?: number;    // HTTP status of the failure (default: 500)
+  error?: string;     // Error message returned in the body
+  code?: string;      // Error code returned in the body
+  network?: boolean;  // Reject the fetch instead of answering (offline, CORS)
+  times?: number;     // How many matching requests fail (default: 1, Infinity until clearFailures)
+}
+
+export interface FakeVortexRequestLogEntry {
+  route: FakeVortexRoute | null; // null when no route matched (answered with 404)
+  method: string;
+  url: string;
+  body: unknown;
+  status: number | null;         // null when a network failure was simulated
+}
+
+export interface FakeVortexBackendOptions {
+  invitations?: InvitationResult[];
+  user?: AuthenticatedUser | null; // User /jwt issues tokens for; null answers 401 (default: user-1)
+  tokenTtlMs?: number;             // Lifetime of issued tokens (default: 1 hour)
+  latencyMs?: number;              // Delay before every response (default: 0)
+  requireAuth?: boolean;           // Reject invitation calls without a valid `Authorization: Bearer` token (default: false)
+}
+
+export interface FakeVortexBackend {
+  fetcher: VortexFetcher;
+  requests: FakeVortexRequestLogEntry[];
+  // Realtime transport delivering the backend's invitation events (pass as config.realtime.transport)
+  realtime: VortexRealtimeTransport;
+
+  // Data
+  seed: (invitations: InvitationResult[]) => void;
+  addInvitation: (overrides?: Partial<InvitationResult>) => InvitationResult;
+  getInvitation: (invitationId: string) => InvitationResult | undefined;
+  listInvitations: () => InvitationResult[];
+  deliverQueued: () => void; // Moves queued (e.g., reinvited) invitations to delivered
+  reset: () => void;
+
+  // Auth
+  getUser: () => AuthenticatedUser | null;
+  setUser: (user: AuthenticatedUser | null) => void;
+  issueToken: (claims?: Record<string, unknown>) => string;
+  expireTokens: () => void;  // Every token issued so far is rejected with 401 (with requireAuth)
+
+  // Realtime
+  emitEvent: (event: InvitationEvent) => void; // Also applies the changes to the stored invitation
+  dropConnections: () => void;                 // Simulates a dropped stream (clients reconnect with backoff)
+
+  // Failure and latency simulation
+  failNext: (route: FakeVortexRoute | '*', failure?: FakeVortexFailure) => void;
+  clearFailures: () => void;
+  setLatency: (latencyMs: number) => void;
+}
+
+interface FakeResponse {
+  status: number;
+  body: unknown;
+}
+
+interface PendingFailure extends FakeVortexFailure {
+  route: FakeVortexRoute | '*';
+  remaining: number;
+}
+
+// Route table mirroring the paths VortexClient calls (relative to apiBaseUrl or backendApiUrl)
+const routes: { route: FakeVortexRoute; method: string; pattern: RegExp }[] = [
+  { route: 'jwt', method: 'POST', pattern: /\/jwt$/ },
+  { route: 'acceptInvitations', method: 'POST', pattern: /\/invitations\/accept$/ },
+  { route: 'getInvitationsByGroup', method: 'GET', pattern: /\/invitations\/by-group\/([^/]+)\/([^/]+)$/ },
+  { route: 'deleteInvitationsByGroup', method: 'DELETE', pattern: /\/invitations\/by-group\/([^/]+)\/([^/]+)$/ },
+  { route: 'reinvite', method: 'POST', pattern: /\/invitations\/([^/]+)\/reinvite$/ },
+  { route: 'getInvitationsByTarget', method: 'GET', pattern: /\/invitations$/ },
+  { route: 'getInvitation', method: 'GET', pattern: /\/invitations\/([^/]+)$/ },
+  { route: 'revokeInvitation', method: 'DELETE', pattern: /\/invitations\/([^/]+)$/ },
+];
+
+const defaultUser: AuthenticatedUser = { userId: 'user-1', userEmail: 'user-1@example.com' };
+
+function errorResponse(status: number, error: string, code?: string): FakeResponse {
+  return { status, body: code ? { error, code } : { error } };
+}
+
+function toResponse({ status, body }: FakeResponse): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: '',
+    headers: typeof Headers !== 'undefined' ? new Headers({ 'Content-Type': 'application/json' }) : undefined,
+    json: async () => body,
+  } as Response;
+}
+
+function parseBody(body: BodyInit | null | undefined): unknown {
+  if (typeof body !== 'string') return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function getBearerToken(headers: HeadersInit | undefined): string | null {
+  const values = (headers || {}) as Record<string, string>;
+  const authorization = values.Authorization || values.authorization;
+  return authorization && authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+}
+
+const listParams = [
+  'cursor', 'limit', 'status', 'deliveryTypes', 'invitationType', 'deactivated',
+  'createdAfter', 'createdBefore', 'sortBy', 'sortOrder',
+];
+
+// Applies the pagination, filter and sort parameters of a list route; null when none were sent
+function applyListQuery(invitations: InvitationResult[], params: URLSearchParams): FakeResponse | null {
+  if (!listParams.some(name => params.has(name))) return null;
+
+  const statuses = params.get('status')?.split(',');
+  const deliveryTypes = params.get('deliveryTypes')?.split(',');
+  const invitationType = params.get('invitationType');
+  const deactivated = params.get('deactivated');
+  const createdAfter = params.get('createdAfter');
+  const createdBefore = params.get('createdBefore');
+
+  const matches = invitations.filter(invitation =>
+    (!statuses || statuses.indexOf(invitation.status) !== -1) &&
+    (!deliveryTypes || invitation.deliveryTypes.some(type => deliveryTypes.indexOf(type) !== -1)) &&
+    (!invitationType || invitation.invitationType === invitationType) &&
+    (deactivated === null || String(invitation.deactivated) === deactivated) &&
+    (!createdAfter || new Date(invitation.createdAt).getTime() >= new Date(createdAfter).getTime()) &&
+    (!createdBefore || new Date(invitation.createdAt).getTime() < new Date(createdBefore).getTime())
+  );
+
+  const sortBy = (params.get('sortBy') || 'createdAt') as keyof InvitationResult;
+  const direction = params.get('sortOrder') === 'asc' ? 1 : -1;
+  const sortValue = (invitation: InvitationResult) => {
+    const value = invitation[sortBy];
+    return sortBy === 'createdAt' || sortBy === 'modifiedAt' ? new Date(value as string).getTime() || 0 : value as string | number;
+  };
+  // Stable tie-break on id so cursors never skip or repeat invitations
+  matches.sort((a, b) =>
+    sortValue(a) < sortValue(b) ? -direction : sortValue(a) > sortValue(b) ? direction : a.id < b.id ? -1 : 1
+  );
+
+  // Cursors are opaque to clients; here they encode the offset of the next page
+  const offset = params.has('cursor') ? parseInt(atob(params.get('cursor')!), 10) || 0 : 0;
+  const limit = params.has('limit') ? parseInt(params.get('limit')!, 10) : matches.length;
+  const end = offset + limit;
+  return {
+    status: 200,
+    body: {
+      data: {
+        invitations: matches.slice(offset, end),
+        nextCursor: end < matches.length ? btoa(String(end)) : null,
+        totalCount: matches.length,
+      },
+    },
+  };
+}
+
+function matchesTarget(invitation: InvitationResult, target: InvitationTarget): boolean {
+  return invitation.target.some(t => t.type === target.type && t.value === target.value);
+}
+
+/**
+ * In-memory Vortex backend implementing every route the client calls
+ * Pass `backend.fetcher` as `config.fetcher` (MockVortexProvider does this for you).
+ * Mutations apply the same status transitions as the real API: revoked invitations are deactivated,
+ * accepted single-use invitations cannot be accepted or reinvited again, and reinvites are queued.
+ * List routes honor the pagination, filter and sort parameters of InvitationListOptions.
+ */
+export function createFakeVortexBackend(options: FakeVortexBackendOptions = {}): FakeVortexBackend {
+  let invitations = new Map<string, InvitationResult>();
+  let user: AuthenticatedUser | null = options.user === undefined ? defaultUser : options.user;
+  let latencyMs = options.latencyMs ?? 0;
+  let failures: PendingFailure[] = [];
+  // Tokens issued by /jwt (or issueToken) that are still accepted
+  let validTokens = new Set<string>();
+  const tokenTtlMs = options.tokenTtlMs ?? 60 * 60 * 1000;
+
+  // Open realtime connections
+  const connections = new Set<VortexRealtimeConnectOptions>();
+
+  const store = (invitation: InvitationResult) => {
+    invitations.set(invitation.id, invitation);
+    return invitation;
+  };
+
+  const update = (invitation: InvitationResult, patch: Partial<InvitationResult>) =>
+    store({ ...invitation, ...patch, modifiedAt: new Date().toISOString() });
+
+  // Updates an invitation and pushes the change to realtime clients
+  const transition = (
+    invitation: InvitationResult,
+    type: InvitationEvent['type'],
+    changes: InvitationEvent['changes']
+  ) => {
+    const updated = update(invitation, changes);
+    const event: InvitationEvent = {
+      type,
+      invitationId: invitation.id,
+      changes: { ...changes, modifiedAt: updated.modifiedAt },
+      occurredAt: updated.modifiedAt!,
+    };
+    connections.forEach(connection => connection.onEvent(event));
+    return updated;
+  };
+
+  const issueToken = (claims: Record<string, unknown> = {}) => {
+    const jwt = createTestJwt({ ...user, ...claims }, { expiresInMs: tokenTtlMs });
+    validTokens.add(jwt);
+    return jwt;
+  };
+
+  const takeFailure = (route: FakeVortexRoute) => {
+    const failure = failures.find(f => f.route === route || f.route === '*');
+    if (!failure) return null;
+    failure.remaining -= 1;
+    if (failure.remaining <= 0) failures = failures.filter(f => f !== failure);
+    return failure;
+  };
+
+  const isAuthorized = (headers: HeadersInit | undefined) => {
+    const jwt = getBearerToken(headers);
+    if (!jwt || !validTokens.has(jwt)) return false;
+    try {
+      const { exp } = decodeVortexJwt(jwt);
+      return !exp || exp * 1000 > Date.now();
+    } catch {
+      return false;
+    }
+  };
+
+  const handle = (route: FakeVortexRoute, params: string[], url: URL, body: unknown): FakeResponse => {
+    switch (route) {
+      case 'jwt':
+        if (!user) return errorResponse(401, 'Unauthorized');
+        return { status: 200, body: { jwt: issueToken() } };
+
+      case 'getInvitationsByTarget': {
+        const target = {
+          type: url.searchParams.get('targetType') as InvitationTarget['type'],
+          value: url.searchParams.get('targetValue') || '',
+        };
+        const matches = Array.from(invitations.values()).filter(invitation => matchesTarget(invitation, target));
+        return applyListQuery(matches, url.searchParams) || { status: 200, body: { data: { invitations: matches } } };
+      }
+
+      case 'getInvitation': {
+        const invitation = invitations.get(params[0]);
+        if (!invitation) return errorResponse(404, 'Invitation not found', 'NOT_FOUND');
+        return { status: 200, body: { data: invitation } };
+      }
+
+      case 'revokeInvitation': {
+        const invitation = invitations.get(params[0]);
+        if (!invitation) return errorResponse(404, 'Invitation not found', 'NOT_FOUND');
+        transition(invitation, 'invitation.updated', { deactivated: true });
+        return { status: 200, body: { data: { success: true } } };
+      }
+
+      case 'acceptInvitations': {
+        const { invitationIds = [], target } = (body || {}) as { invitationIds?: string[]; target?: InvitationTarget };
+        if (!target || invitationIds.length === 0) {
+          return errorResponse(400, 'invitationIds and target are required', 'INVALID_REQUEST');
+        }
+
+        for (const id of invitationIds) {
+          const invitation = invitations.get(id);
+          if (!invitation) return errorResponse(404, 'Invitation not found', 'NOT_FOUND');
+          if (invitation.deactivated) return errorResponse(410, 'Invitation has been revoked', 'REVOKED');
+          if (invitation.invitationType === 'single_use' && invitation.status === 'accepted') {
+            return errorResponse(409, 'Invitation has already been accepted', 'ALREADY_ACCEPTED');
+          }
+        }
+
+        const accepted = invitationIds.map(id => {
+          const invitation = invitations.get(id)!;
+          const withAccept = store({
+            ...invitation,
+            accepts: [...invitation.accepts, { target, acceptedAt: new Date().toISOString() }],
+          });
+          return transition(withAccept, 'invitation.status_changed', { status: 'accepted' });
+        });
+        return { status: 200, body: { data: accepted[0] } };
+      }
+
+      case 'getInvitationsByGroup': {
+        const [groupType, groupId] = params;
+        const matches = Array.from(invitations.values()).filter(invitation =>
+          invitation.groups.some(group => group.type === groupType && group.groupId === groupId)
+        );
+        return applyListQuery(matches, url.searchParams) || { status: 200, body: { data: { invitations: matches } } };
+      }
+
+      case 'deleteInvitationsByGroup': {
+        const [groupType, groupId] = params;
+        invitations.forEach((invitation, id) => {
+          if (invitation.groups.some(group => group.type === groupType && group.groupId === groupId)) {
+            invitations.delete(id);
+          }
+        });
+        return { status: 200, body: { data: { success: true } } };
+      }
+
+      case 'reinvite': {
+        const invitation = invitations.get(params[0]);
+        if (!invitation) return errorResponse(404, 'Invitation not found', 'NOT_FOUND');
+        if (invitation.deactivated) return errorResponse(410, 'Invitation has been revoked', 'REVOKED');
+        if (invitation.invitationType === 'single_use' && invitation.status === 'accepted') {
+          return errorResponse(409, 'Invitation has already been accepted', 'ALREADY_ACCEPTED');
+        }
+        const reinvited = transition(invitation, 'invitation.status_changed', {
+          status: 'queued',
+          deliveryCount: invitation.deliveryCount + 1,
+        });
+        return { status: 200, body: { data: reinvited } };
+      }
+    }
+  };
+
+  const backend: FakeVortexBackend = {
+    requests: [],
+
+    realtime: {
+      connect: connection => {
+        connections.add(connection);
+        // Open asynchronously, like a real stream
+        const timer = setTimeout(() => connection.onOpen(), 0);
+        return {
+          close: () => {
+            clearTimeout(timer);
+            connections.delete(connection);
+          },
+        };
+      },
+    },
+
+    fetcher: async (rawUrl, init) => {
+      const method = (init.method || 'GET').toUpperCase();
+      const url = new URL(rawUrl, 'http://localhost');
+      const path = url.pathname.replace(/\/+$/, '');
+      const body = parseBody(init.body);
+
+      let route: FakeVortexRoute | null = null;
+      let params: string[] = [];
+      for (const candidate of routes) {
+        const match = candidate.method === method ? candidate.pattern.exec(path) : null;
+        if (match) {
+          route = candidate.route;
+          params = match.slice(1).map(decodeURIComponent);
+          break;
+        }
+      }
+
+      const entry: FakeVortexRequestLogEntry = { route, method, url: rawUrl, body, status: null };
+      backend.requests.push(entry);
+
+      if (latencyMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, latencyMs));
+      }
+
+      let response: FakeResponse;
+      const failure = route ? takeFailure(route) : null;
+      if (failure?.network) {
+        throw new TypeError('Failed to fetch');
+      } else if (failure) {
+        response = errorResponse(failure.status ?? 500, failure.error ?? 'Internal Server Error', failure.code);
+      } else if (!route) {
+        response = errorResponse(404, `No route for ${method} ${path}`);
+      } else if (route !== 'jwt' && options.requireAuth && !isAuthorized(init.headers)) {
+        response = errorResponse(401, 'Unauthorized');
+      } else {
+        response = handle(route, params, url, body);
+      }
+
+      entry.status = response.status;
+      return toResponse(response);
+    },
+
+    seed: list => {
+      list.forEach(store);
+    },
+    addInvitation: overrides => store(createInvitationResult(overrides)),
+    getInvitation: invitationId => invitations.get(invitationId),
+    listInvitations: () => Array.from(invitations.values()),
+    deliverQueued: () => {
+      invitations.forEach(invitation => {
+        if (invitation.status === 'queued') transition(invitation, 'invitation.status_changed', { status: 'delivered' });
+      });
+    },
+    reset: () => {
+      invitations = new Map();
+      (options.invitations || []).forEach(store);
+      user = options.user === undefined ? defaultUser : options.user;
+      failures = [];
+      validTokens = new Set();
+      latencyMs = options.latencyMs ?? 0;
+      backend.requests.length = 0;
+    },
+
+    getUser: () => user,
+    setUser: nextUser => {
+      user = nextUser;
+    },
+    issueToken,
+    expireTokens: () => {
+      validTokens = new Set();
+    },
+
+    emitEvent: event => {
+      const invitation = invitations.get(event.invitationId);
+      if (invitation) store({ ...invitation, ...event.changes });
+      connections.forEach(connection => connection.onEvent(event));
+    },
+    dropConnections: () => {
+      const dropped = Array.from(connections);
+      connections.clear();
+      dropped.forEach(connection => connection.onError(new Error('Connection dropped')));
+    },
+
+    failNext: (route, failure = {}) => {
+      const times = failure.times ?? 1;
+      failures.push({ ...failure, route, remaining: times });
+    },
+    clearFailures: () => {
+      failures = [];
+    },
+    setLatency: nextLatencyMs => {
+      latencyMs = nextLatencyMs;
+    },
+  };
+
+  (options.invitations || []).forEach(store);
+  return backend;
+}
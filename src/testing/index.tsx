@@ -0,0 +1,17 @@
+"use client";
+
+// Testing entry point (`@teamvortexsoftware/vortex-react-provider/testing`): never import it from app code
+
+export { MockVortexProvider } from './MockVortexProvider';
+export { createFakeVortexBackend } from './fakeBackend';
+export { createInvitationResult, createInvitationGroup, createTestJwt } from './factories';
+
+export type { MockVortexProviderProps } from './MockVortexProvider';
+export type {
+  FakeVortexBackend,
+  FakeVortexBackendOptions,
+  FakeVortexFailure,
+  FakeVortexRequestLogEntry,
+  FakeVortexRoute,
+} from './fakeBackend';
+export type { CreateTestJwtOptions } from './factories';
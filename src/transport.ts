@@ -0,0 +1,164 @@
+"use client";
+
+import { VortexAbortError, VortexNetworkError, createVortexApiErrorFromResponse, toVortexApiError } from './errors';
+import { createRequestSignal, raceAbortSignal, throwIfAborted } from './abort';
+import type {
+  ApiResponse,
+  VortexCallOptions,
+  VortexConfig,
+  VortexInterceptor,
+  VortexInterceptorContext,
+  VortexRequest,
+  VortexResponse,
+} from './types';
+
+/**
+ * Builds the initial request for an endpoint before interceptors run
+ */
+export function createVortexRequest(baseUrl: string, endpoint: string, options: RequestInit = {}): VortexRequest {
+  const { method, headers, body, ...init } = options;
+
+  return {
+    url: `${baseUrl}${endpoint}`,
+    endpoint,
+    method: method || 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(headers as Record<string, string> | undefined),
+    },
+    body,
+    init,
+  };
+}
+
+async function parseBody(response: Response): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch {
+    // Empty or non-JSON body (e.g., 204 No Content)
+    return undefined;
+  }
+}
+
+/**
+ * Sends a request through the configured fetcher and interceptors, returning the final response
+ * Failures are raised as VortexApiError subclasses; interceptor `onError` hooks may recover by returning a response
+ * (except from a VortexAbortError: the caller is no longer waiting)
+ */
+export async function sendVortexRequest(
+  request: VortexRequest,
+  config: VortexConfig,
+  context: VortexInterceptorContext,
+  options: VortexCallOptions = {}
+): Promise<VortexResponse> {
+  const interceptors: VortexInterceptor[] = config.interceptors || [];
+  const fetcher = config.fetcher || ((url: string, init: RequestInit) => fetch(url, init));
+
+  throwIfAborted(options.signal);
+  let finalRequest = request;
+  for (const interceptor of interceptors) {
+    if (interceptor.onRequest) {
+      finalRequest = await interceptor.onRequest(finalRequest, context);
+    }
+  }
+
+  const requestSignal = createRequestSignal(
+    options.signal ?? finalRequest.init.signal,
+    options.timeoutMs ?? config.requestTimeoutMs
+  );
+  try {
+    let raw: Response;
+    try {
+      // Fetchers that ignore the signal are raced so the call still settles on time
+      raw = await raceAbortSignal(fetcher(finalRequest.url, {
+        ...finalRequest.init,
+        method: finalRequest.method,
+        headers: finalRequest.headers,
+        body: finalRequest.body,
+        signal: requestSignal.signal,
+      }), requestSignal.signal);
+    } catch (error) {
+      if (requestSignal.signal.aborted) {
+        throw requestSignal.toError({ endpoint: finalRequest.endpoint, method: finalRequest.method, cause: error });
+      }
+      throw new VortexNetworkError(
+        error instanceof Error ? error.message : 'Network request failed',
+        { endpoint: finalRequest.endpoint, method: finalRequest.method, cause: error }
+      );
+    }
+
+    let response: VortexResponse = {
+      ok: raw.ok,
+      status: raw.status,
+      statusText: raw.statusText,
+      headers: raw.headers || null,
+      body: await parseBody(raw),
+    };
+    for (const interceptor of interceptors) {
+      if (interceptor.onResponse) {
+        response = await interceptor.onResponse(response, finalRequest, context);
+      }
+    }
+
+    if (!response.ok) {
+      throw createVortexApiErrorFromResponse(response, finalRequest);
+    }
+    return response;
+  } catch (error) {
+    const err = toVortexApiError(error, 'Unknown error occurred', finalRequest);
+    if (err instanceof VortexAbortError) throw err;
+
+    for (const interceptor of interceptors) {
+      if (interceptor.onError) {
+        const recovered = await interceptor.onError(err, finalRequest, context);
+        if (recovered) return recovered;
+      }
+    }
+    throw err;
+  } finally {
+    requestSignal.dispose();
+  }
+}
+
+/**
+ * Unwraps the `ApiResponse` envelope, falling back to the raw body
+ */
+export function unwrapVortexResponse<T>(response: VortexResponse): T {
+  const body = response.body as ApiResponse<T> | undefined;
+  return body && body.data !== undefined ? body.data : (body as unknown as T);
+}
+
+/**
+ * Attaches the current JWT as an `Authorization: Bearer` header
+ */
+export function bearerTokenInterceptor(): VortexInterceptor {
+  return {
+    onRequest: (request, context) => {
+      if (!context.jwt) return request;
+      return { ...request, headers: { ...request.headers, Authorization: `Bearer ${context.jwt}` } };
+    },
+  };
+}
+
+/**
+ * Adds static or lazily computed headers (e.g., CSRF or tracing headers) to every request
+ */
+export function headersInterceptor(
+  headers: Record<string, string> | ((request: VortexRequest) => Record<string, string>)
+): VortexInterceptor {
+  return {
+    onRequest: request => ({
+      ...request,
+      headers: { ...request.headers, ...(typeof headers === 'function' ? headers(request) : headers) },
+    }),
+  };
+}
+
+/**
+ * Sets the fetch `credentials` mode (e.g., 'include' for cross-origin cookies)
+ */
+export function credentialsInterceptor(credentials: RequestCredentials): VortexInterceptor {
+  return {
+    onRequest: request => ({ ...request, init: { ...request.init, credentials } }),
+  };
+}
@@ -1,4 +1,8 @@
-export interface AuthenticatedUser {
+import type { InvitationQueryCache, InvitationQueryKey } from './cache';
+import type { VortexApiError } from './errors';
+import type { VortexClient } from './VortexClient';
+
+export interface VortexUserClaims {
   userId: string;
   userEmail?: string;
   adminScopes?: string[];
@@ -8,6 +12,22 @@ export interface AuthenticatedUser {
   role?: string;
 }
 
+/**
+ * Signed-in user decoded from the JWT
+ * `TExtra` types the custom claims added by `config.mapClaimsToUser`
+ */
+export type AuthenticatedUser<TExtra extends object = Record<never, never>> = VortexUserClaims & TExtra;
+
+/**
+ * Decoded JWT payload: typed standard claims plus any custom claims
+ */
+export interface VortexJwtClaims {
+  exp?: number; // Expiry, in seconds since the epoch
+  iat?: number; // Issued at, in seconds since the epoch
+  sub?: string; // Subject
+  [claim: string]: unknown;
+}
+
 export interface InvitationTarget {
   type: 'email' | 'username' | 'phoneNumber';
   value: string;
@@ -48,13 +68,193 @@ export interface InvitationResult {
   accepts: unknown[];
 }
 
+export type InvitationSortField = 'createdAt' | 'modifiedAt' | 'status' | 'deliveryCount' | 'views';
+
+/**
+ * Server-side pagination, filtering and sorting of invitation lists
+ */
+export interface InvitationListOptions {
+  cursor?: string;                                  // nextCursor of the previous page (omit for the first page)
+  limit?: number;                                   // Page size (server default when omitted)
+  status?: InvitationResult['status'] | InvitationResult['status'][];
+  deliveryTypes?: InvitationResult['deliveryTypes']; // Invitations delivered through any of these channels
+  invitationType?: InvitationResult['invitationType'];
+  deactivated?: boolean;
+  createdAfter?: string | Date;                     // Inclusive lower bound of createdAt
+  createdBefore?: string | Date;                    // Exclusive upper bound of createdAt
+  sortBy?: InvitationSortField;                     // Server default: createdAt
+  sortOrder?: 'asc' | 'desc';                       // Server default: desc
+}
+
+export interface InvitationPage {
+  invitations: InvitationResult[];
+  nextCursor: string | null; // null on the last page
+  totalCount?: number;       // Total matching invitations, when the server reports it
+}
+
+/**
+ * Lists a group's invitations: the whole list without options, a page with them
+ */
+export interface GetInvitationsByGroup {
+  (groupType: string, groupId: string, options?: undefined, callOptions?: VortexCallOptions): Promise<InvitationResult[]>;
+  (groupType: string, groupId: string, options: InvitationListOptions, callOptions?: VortexCallOptions): Promise<InvitationPage>;
+}
+
+/**
+ * Lists the invitations sent to a target: the whole list without options, a page with them
+ */
+export interface GetInvitationsByTarget {
+  (
+    targetType: InvitationTarget['type'],
+    targetValue: string,
+    options?: undefined,
+    callOptions?: VortexCallOptions
+  ): Promise<InvitationResult[]>;
+  (
+    targetType: InvitationTarget['type'],
+    targetValue: string,
+    options: InvitationListOptions,
+    callOptions?: VortexCallOptions
+  ): Promise<InvitationPage>;
+}
+
+/**
+ * Per-call cancellation and timeout, accepted by every invitation method and refreshJwt
+ */
+export interface VortexCallOptions {
+  signal?: AbortSignal; // Aborting rejects the call with a VortexAbortError
+  timeoutMs?: number;   // Overrides config.requestTimeoutMs for this call
+}
+
+/**
+ * Outcome of one invitation in a bulk operation
+ */
+export type BulkInvitationResult<T> =
+  | { invitationId: string; status: 'fulfilled'; value: T }
+  | { invitationId: string; status: 'rejected'; error: VortexApiError };
+
+export interface BulkInvitationProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface BulkInvitationOptions {
+  concurrency?: number; // Maximum requests in flight (default: 5)
+  signal?: AbortSignal; // Aborting rejects the ids not started yet with a VortexAbortError
+  onProgress?: (progress: BulkInvitationProgress, result: BulkInvitationResult<unknown>) => void;
+}
+
+/**
+ * Fetch-compatible function used to perform HTTP requests
+ */
+export type VortexFetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Outgoing request as seen (and rewritten) by interceptors
+ */
+export interface VortexRequest {
+  url: string;                      // Fully resolved URL
+  endpoint: string;                 // Path relative to the base URL (e.g., "/invitations/accept")
+  method: string;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+  init: RequestInit;                // Any other fetch options (credentials, mode, cache...)
+}
+
+/**
+ * Response with its parsed body, before the ApiResponse envelope is unwrapped
+ */
+export interface VortexResponse<T = unknown> {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Headers | null;
+  body: T;
+}
+
+export interface VortexInterceptorContext {
+  jwt: string | null;               // Current JWT, if any
+  config: VortexConfig;
+}
+
+/**
+ * Request/response interceptor, applied in the order it appears in `VortexConfig.interceptors`
+ */
+export interface VortexInterceptor {
+  onRequest?: (request: VortexRequest, context: VortexInterceptorContext) => VortexRequest | Promise<VortexRequest>;
+  onResponse?: (
+    response: VortexResponse,
+    request: VortexRequest,
+    context: VortexInterceptorContext
+  ) => VortexResponse | Promise<VortexResponse>;
+  // Return a response to recover from the error, or nothing to let it propagate
+  onError?: (
+    error: VortexApiError,
+    request: VortexRequest,
+    context: VortexInterceptorContext
+  ) => VortexResponse | void | Promise<VortexResponse | void>;
+}
+
+/**
+ * One HTTP attempt made by a VortexClient, as seen by request observers (e.g., VortexDevtools)
+ */
+export interface VortexRequestLogEntry {
+  id: number;
+  method: string;
+  endpoint: string;                 // Path relative to the base URL
+  backend: boolean;                 // Sent to backendApiUrl (JWT calls)
+  attempt: number;                  // 0, then 1, 2... for GET retries
+  startedAt: number;                // Epoch ms
+  durationMs: number;
+  status: number | null;            // HTTP status; null when no response was received (network failure, timeout, abort)
+  error: VortexApiError | null;
+  // Sends the same request again; the response is returned but not written to the cache or token registry
+  replay: () => Promise<unknown>;
+}
+
+/**
+ * Outcome of probing one API route:
+ * - reachable: the route answered (for write routes, by rejecting the harmless probe input)
+ * - missing: 404/405 without a server error code
+ * - auth-required: 401/403, even with a fresh token from /jwt
+ * - cors-blocked: no response at all (CORS rejection, server unreachable or timeout)
+ * - wrong-envelope: a successful response the client cannot read
+ */
+export type VortexRouteStatus = 'reachable' | 'missing' | 'auth-required' | 'cors-blocked' | 'wrong-envelope';
+
+export interface VortexRouteReport {
+  route: 'jwt' | 'getInvitationsByTarget' | 'acceptInvitations' | 'getInvitationsByGroup' | 'reinvite';
+  method: string;
+  url: string;                      // Fully resolved URL that was probed
+  endpoint: string;                 // Path relative to the base URL
+  status: VortexRouteStatus;
+  httpStatus: number | null;        // null when no response was received
+  message: string;                  // Human-readable explanation and hint
+  error: VortexApiError | null;     // Error raised by the probe, if any
+}
+
+/**
+ * Storage adapter for persisting tokens between page loads (values are JSON strings)
+ */
+export interface VortexTokenPersistence {
+  get: (key: string) => string | null | Promise<string | null>;
+  set: (key: string, value: string) => void | Promise<void>;
+  remove: (key: string) => void | Promise<void>;
+}
+
 export interface VortexConfig {
   apiBaseUrl?: string;
   backendApiUrl?: string; // Optional separate backend API host (e.g., for non-Next.js setups)
-  refreshJwtInterval?: number;
+  refreshJwtInterval?: number; // Fallback refresh interval for tokens without an exp claim; 0 disables auto-refresh
+  refreshSkewMs?: number;      // Refresh this long before the token's exp claim (default: 60000ms)
+  pauseRefreshWhenHidden?: boolean; // Pause refresh timers while the tab is hidden (default: true)
   defaultGroups?: InvitationGroup[];
-  onError?: (error: Error) => void;
+  onError?: (error: VortexApiError) => void;
   onJwtRefresh?: (jwt: string) => void;
+  // Builds the user from the token claims; receives the default mapping (e.g., to add custom claims)
+  mapClaimsToUser?: (claims: VortexJwtClaims, user: AuthenticatedUser) => AuthenticatedUser<object> | null;
   // Backoff configuration for JWT refresh failures (optional, has sensible defaults)
   jwtBackoff?: {
     initialDelayMs?: number;  // Initial retry delay (default: 1000ms)
@@ -62,6 +262,90 @@ export interface VortexConfig {
     multiplier?: number;       // Backoff multiplier (default: 2)
     maxRetries?: number;       // Maximum number of retries before giving up (default: 5)
   };
+  // Retry policy for idempotent GETs failing with a retryable error (network, timeout, 408, 429, 5xx)
+  retry?: {
+    initialDelayMs?: number;  // Initial retry delay (default: 1000ms)
+    maxDelayMs?: number;       // Maximum retry delay (default: 30000ms)
+    multiplier?: number;       // Backoff multiplier (default: 2)
+    maxRetries?: number;       // Retries after the first attempt (default: 0 = no retries)
+  };
+  // Refresh the JWT once and replay invitation requests rejected with 401 (default: true)
+  refreshOnUnauthorized?: boolean;
+  // Opt-in token persistence (tokens are kept in memory only by default)
+  persistence?: VortexTokenPersistence;
+  // Read a synchronous adapter while creating the client, so the first render is already signed in
+  // Client-only apps: with SSR the server renders signed out, so the first client render would not match (default: false)
+  rehydrateBeforeFirstRender?: boolean;
+  // Opt-in cross-tab coordination: one elected tab refreshes and shares tokens, clearAuth logs out every tab
+  crossTab?: boolean | {
+    channelName?: string;      // BroadcastChannel name / localStorage key prefix (default: 'vortex-auth')
+    heartbeatMs?: number;      // Leader election heartbeat (default: 5000ms)
+  };
+  // Transport used for every API call (default: global fetch)
+  fetcher?: VortexFetcher;
+  // Requests still pending after this long are aborted with a VortexTimeoutError (default: no timeout)
+  requestTimeoutMs?: number;
+  // Ordered request/response interceptors (e.g., auth headers, CSRF tokens, custom envelopes)
+  interceptors?: VortexInterceptor[];
+  // Shared invitation query cache (optional, has sensible defaults)
+  cache?: {
+    staleTimeMs?: number;      // How long fetched data is considered fresh (default: 30000ms)
+    gcTimeMs?: number;         // How long unobserved entries are kept (default: 300000ms = 5 minutes)
+  };
+  // Opt-in realtime invitation events; reconnects reuse the current JWT and the jwtBackoff settings
+  realtime?: boolean | {
+    path?: string;             // Event stream endpoint under apiBaseUrl (default: '/events')
+    transport?: VortexRealtimeTransport; // Default: Server-Sent Events over fetch (see createSseTransport, createWebSocketTransport)
+  };
+  // Checks invitation responses against the InvitationResult shape (disabled unless set)
+  validation?: {
+    mode?: 'off' | 'warn' | 'strict'; // 'warn' logs issues in development only; 'strict' throws VortexValidationError (default: 'warn')
+    // Default missing arrays to [] and null attributes to {} before data reaches the cache (timestamps stay strings)
+    fillDefaults?: boolean;
+  };
+  // Development only: probes the API routes once on start and reports each problem through onError (see diagnoseVortexRoutes)
+  diagnoseRoutes?: boolean;
+}
+
+export type InvitationEventType =
+  | 'invitation.status_changed'
+  | 'invitation.viewed'
+  | 'invitation.clicked'
+  | 'invitation.updated';
+
+/**
+ * Change to an invitation pushed by the realtime stream
+ * `changes` holds the new values, which are applied to every cached copy of the invitation
+ */
+export interface InvitationEvent {
+  type: InvitationEventType;
+  invitationId: string;
+  changes: Partial<Pick<InvitationResult, 'status' | 'views' | 'clickThroughs' | 'deactivated' | 'deliveryCount' | 'modifiedAt'>>;
+  occurredAt?: string; // ISO 8601 timestamp
+}
+
+export interface InvitationEventFilter {
+  invitationIds?: string[];
+  types?: InvitationEventType[];
+}
+
+export interface VortexRealtimeConnectOptions {
+  url: string;                 // Fully resolved stream URL
+  jwt: string | null;          // Current top-level token
+  onOpen: () => void;
+  onEvent: (event: InvitationEvent) => void;
+  onError: (error: unknown) => void; // The connection is closed and reopened with backoff
+}
+
+export interface VortexRealtimeConnection {
+  close: () => void;
+}
+
+/**
+ * Opens realtime connections (Server-Sent Events, WebSocket or anything that delivers InvitationEvents)
+ */
+export interface VortexRealtimeTransport {
+  connect: (options: VortexRealtimeConnectOptions) => VortexRealtimeConnection;
 }
 
 export interface JwtContext {
@@ -70,6 +354,20 @@ export interface JwtContext {
   scopeType?: string;
 }
 
+/**
+ * State of a single JWT, tracked per JwtContext
+ */
+export interface JwtTokenState {
+  context?: JwtContext;
+  jwt: string | null;
+  user: AuthenticatedUser | null;
+  expiresAt: number | null; // Epoch ms from the exp claim, if present
+  isLoading: boolean;
+  error: VortexApiError | null;
+  retryCount: number;    // Consecutive failed refresh attempts
+  retryDelayMs: number;  // Delay before the next retry (0 when not backing off)
+}
+
 export interface VortexContextValue {
   // Configuration
   config: VortexConfig;
@@ -79,20 +377,40 @@ export interface VortexContextValue {
   user: AuthenticatedUser | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  error: Error | null;
+  error: VortexApiError | null;
+
+  // Scoped tokens, keyed by getJwtContextKey(context)
+  tokens: Record<string, JwtTokenState>;
 
   // JWT management
-  refreshJwt: (context?: JwtContext) => Promise<void>;
+  refreshJwt: (context?: JwtContext, options?: VortexCallOptions) => Promise<void>;
+  // Refreshes the token for a context without making it the top-level jwt/user
+  refreshScopedJwt: (context: JwtContext, options?: VortexCallOptions) => Promise<void>;
   clearAuth: () => void;
 
+  // Framework-agnostic client backing the provider
+  client: VortexClient;
+
+  // Invitation query cache shared by every component under the provider
+  cache: InvitationQueryCache;
+
   // Invitation management
-  getInvitationsByTarget: (targetType: InvitationTarget['type'], targetValue: string) => Promise<InvitationResult[]>;
-  getInvitation: (invitationId: string) => Promise<InvitationResult>;
-  revokeInvitation: (invitationId: string) => Promise<void>;
-  acceptInvitations: (invitationIds: string[], target: InvitationTarget) => Promise<InvitationResult>;
-  getInvitationsByGroup: (groupType: string, groupId: string) => Promise<InvitationResult[]>;
-  deleteInvitationsByGroup: (groupType: string, groupId: string) => Promise<void>;
-  reinvite: (invitationId: string) => Promise<InvitationResult>;
+  getInvitationsByTarget: GetInvitationsByTarget;
+  getInvitation: (invitationId: string, options?: VortexCallOptions) => Promise<InvitationResult>;
+  revokeInvitation: (invitationId: string, options?: VortexCallOptions) => Promise<void>;
+  acceptInvitations: (invitationIds: string[], target: InvitationTarget, options?: VortexCallOptions) => Promise<InvitationResult>;
+  getInvitationsByGroup: GetInvitationsByGroup;
+  deleteInvitationsByGroup: (groupType: string, groupId: string, options?: VortexCallOptions) => Promise<void>;
+  reinvite: (invitationId: string, options?: VortexCallOptions) => Promise<InvitationResult>;
+  bulkRevoke: (invitationIds: string[], options?: BulkInvitationOptions) => Promise<BulkInvitationResult<void>[]>;
+  bulkReinvite: (invitationIds: string[], options?: BulkInvitationOptions) => Promise<BulkInvitationResult<InvitationResult>[]>;
+}
+
+/**
+ * Selects the provider a hook talks to
+ */
+export interface VortexInstanceOptions {
+  instance?: string; // Name of a VortexProvider (default: the nearest unnamed provider)
 }
 
 export interface ApiResponse<T = unknown> {
@@ -100,7 +418,29 @@ export interface ApiResponse<T = unknown> {
   error?: string;
 }
 
+/**
+ * Serializable invitation query data, e.g. prefetched by a server component
+ */
+export interface DehydratedVortexState {
+  queries: {
+    key: InvitationQueryKey;
+    data: unknown;
+    updatedAt: number; // Epoch ms when the data was fetched
+  }[];
+}
+
 export interface VortexProviderProps {
   children: React.ReactNode;
+  // Registers the provider under this name for hooks called with `{ instance: name }`; it only serves
+  // unnamed hooks when there is no unnamed provider above it
+  name?: string;
   config?: VortexConfig;
+  // Server-provided token (and user) so the first render is already authenticated
+  initialJwt?: string;
+  initialUser?: AuthenticatedUser;
+  initialJwtContext?: JwtContext; // Context the initial token was issued for (default: unscoped)
+  // Prefetched invitation queries (see dehydrateVortexState from the /server entry point)
+  initialState?: DehydratedVortexState;
+  // Existing client to adapt (e.g., shared with non-React code); config is still applied to it
+  client?: VortexClient;
 }
\ No newline at end of file
@@ -1,11 +1,12 @@
 "use client";
 
 import { useVortexContext } from './VortexContext';
+import type { VortexInstanceOptions } from './types';
 
 /**
  * Main hook to access all Vortex functionality
  * Provides authentication state, JWT management, and invitation operations
  */
-export function useVortex() {
-  return useVortexContext();
+export function useVortex(options: VortexInstanceOptions = {}) {
+  return useVortexContext(options.instance);
 }
\ No newline at end of file
@@ -1,5 +1,71 @@
 "use client";
 
+import { VortexApiError } from './errors';
+import type { JwtContext, VortexJwtClaims } from './types';
+
+/**
+ * Registry key identifying the token for a JwtContext
+ * Calls without a context share the 'default' token
+ */
+export function getJwtContextKey(context?: JwtContext): string {
+  if (!context || (!context.componentId && !context.scope && !context.scopeType)) {
+    return 'default';
+  }
+  return [context.componentId || '', context.scopeType || '', context.scope || ''].join('|');
+}
+
+// Decodes a base64url segment (unpadded, `-`/`_` alphabet) into a UTF-8 string
+function decodeBase64Url(segment: string): string {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '==='.slice((base64.length + 3) % 4));
+  // Percent-encode every byte so decodeURIComponent reassembles multi-byte characters
+  let encoded = '';
+  for (let index = 0; index < binary.length; index++) {
+    encoded += '%' + ('0' + binary.charCodeAt(index).toString(16)).slice(-2);
+  }
+  return decodeURIComponent(encoded);
+}
+
+function toNumericDate(value: unknown): number | undefined {
+  const numeric = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof numeric === 'number' && isFinite(numeric) ? numeric : undefined;
+}
+
+/**
+ * Decodes the payload of a JWT without verifying its signature
+ * Handles base64url encoding, missing padding and UTF-8 claims; throws if the token is malformed
+ */
+export function decodeVortexJwt<TClaims extends object = Record<never, never>>(jwt: string): VortexJwtClaims & TClaims {
+  const segments = jwt.split('.');
+  if (segments.length < 2 || !segments[1]) {
+    throw new Error('Invalid JWT: missing payload segment');
+  }
+
+  const payload = JSON.parse(decodeBase64Url(segments[1]));
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new Error('Invalid JWT: payload is not a JSON object');
+  }
+  return {
+    ...payload,
+    exp: toNumericDate(payload.exp),
+    iat: toNumericDate(payload.iat),
+    sub: typeof payload.sub === 'string' ? payload.sub : undefined,
+  };
+}
+
+/**
+ * Reads the expiry of a JWT (exp claim, or legacy expires date) as epoch milliseconds
+ * Returns null when the token has no expiry; throws if the payload cannot be decoded
+ */
+export function getJwtExpiry(jwt: string): number | null {
+  const payload = decodeVortexJwt<{ expires?: unknown }>(jwt);
+  const exp = payload.exp || payload.expires;
+
+  if (!exp) return null;
+
+  return typeof exp === 'number' ? exp * 1000 : new Date(exp as string).getTime();
+}
+
 /**
  * Validates that the apiBaseUrl is correctly configured for the expected route structure
  * This helps developers ensure their backend routes match the provider expectations
@@ -31,6 +97,7 @@ export function validateVortexApiConfiguration(apiBaseUrl: string, backendApiUrl
       });
     }
 
+    console.info('\n  Set diagnoseRoutes: true in the provider config to probe them on start.');
     console.info('\n📖 See the Vortex SDK documentation for exact API requirements.');
   }
 }
@@ -39,6 +106,10 @@ export function validateVortexApiConfiguration(apiBaseUrl: string, backendApiUrl
  * Helper to check if an error indicates a missing route
  */
 export function isMissingRouteError(error: unknown): boolean {
+  if (error instanceof VortexApiError && error.status !== undefined) {
+    return error.status === 404;
+  }
+  // Fall back to message matching for errors raised outside the provider
   if (error instanceof Error) {
     const message = error.message.toLowerCase();
     return message.includes('404') ||
@@ -0,0 +1,240 @@
+"use client";
+
+import { VortexValidationError } from './errors';
+import type { VortexValidationIssue } from './errors';
+import type { InvitationGroup, InvitationPage, InvitationResult, InvitationTarget, VortexConfig } from './types';
+
+const INVITATION_STATUSES: InvitationResult['status'][] = [
+  'queued', 'sending', 'delivered', 'accepted', 'shared', 'unfurled', 'accepted_elsewhere',
+];
+const INVITATION_TYPES: InvitationResult['invitationType'][] = ['single_use', 'multi_use'];
+const DELIVERY_TYPES: InvitationResult['deliveryTypes'][number][] = ['email', 'sms', 'share'];
+const TARGET_TYPES: InvitationTarget['type'][] = ['email', 'username', 'phoneNumber'];
+
+/**
+ * InvitationResult as returned by normalizeInvitationResult
+ */
+export type NormalizedInvitationResult = Omit<
+  InvitationResult,
+  'createdAt' | 'modifiedAt' | 'attributes' | 'configurationAttributes' | 'groups'
+> & {
+  createdAt: Date;
+  modifiedAt: Date | null;
+  attributes: Record<string, unknown>;
+  configurationAttributes: Record<string, unknown>;
+  groups: (Omit<InvitationGroup, 'createdAt'> & { createdAt: Date })[];
+};
+
+export type NormalizedInvitationPage = Omit<InvitationPage, 'invitations'> & {
+  invitations: NormalizedInvitationResult[];
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+function isObject(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'string' ? `"${value}"` : typeof value;
+}
+
+function createChecker(issues: VortexValidationIssue[], base: string, value: UnknownRecord) {
+  const at = (field: string) => (base ? `${base}.${field}` : field);
+  const report = (field: string, message: string) => issues.push({ path: at(field), message, received: value[field] });
+
+  return {
+    string: (field: string) => {
+      if (typeof value[field] !== 'string') report(field, `expected a string, received ${describe(value[field])}`);
+    },
+    date: (field: string, nullable = false) => {
+      const date = value[field];
+      if (nullable && date === null) return;
+      if (typeof date !== 'string' || isNaN(new Date(date).getTime())) {
+        report(field, `expected an ISO 8601 date string${nullable ? ' or null' : ''}, received ${describe(date)}`);
+      }
+    },
+    number: (field: string) => {
+      if (typeof value[field] !== 'number') report(field, `expected a number, received ${describe(value[field])}`);
+    },
+    boolean: (field: string) => {
+      if (typeof value[field] !== 'boolean') report(field, `expected a boolean, received ${describe(value[field])}`);
+    },
+    nullableObject: (field: string) => {
+      if (value[field] !== null && !isObject(value[field])) {
+        report(field, `expected an object or null, received ${describe(value[field])}`);
+      }
+    },
+    oneOf: (field: string, allowed: string[]) => {
+      if (allowed.indexOf(value[field] as string) === -1) {
+        report(field, `expected one of ${allowed.join(', ')}, received ${describe(value[field])}`);
+      }
+    },
+    array: (field: string, check?: (item: unknown, path: string) => void) => {
+      const items = value[field];
+      if (!Array.isArray(items)) {
+        report(field, `expected an array, received ${describe(items)}`);
+        return;
+      }
+      if (check) items.forEach((item, index) => check(item, `${at(field)}[${index}]`));
+    },
+  };
+}
+
+export function validateInvitationTarget(value: unknown, path: string = '', issues: VortexValidationIssue[] = []): VortexValidationIssue[] {
+  if (!isObject(value)) {
+    issues.push({ path: path || '(root)', message: `expected an InvitationTarget object, received ${describe(value)}`, received: value });
+    return issues;
+  }
+  const check = createChecker(issues, path, value);
+  check.oneOf('type', TARGET_TYPES);
+  check.string('value');
+  return issues;
+}
+
+export function validateInvitationGroup(value: unknown, path: string = '', issues: VortexValidationIssue[] = []): VortexValidationIssue[] {
+  if (!isObject(value)) {
+    issues.push({ path: path || '(root)', message: `expected an InvitationGroup object, received ${describe(value)}`, received: value });
+    return issues;
+  }
+  const check = createChecker(issues, path, value);
+  check.string('id');
+  check.string('accountId');
+  check.string('groupId');
+  check.string('type');
+  check.string('name');
+  check.date('createdAt');
+  return issues;
+}
+
+export function validateInvitationResult(value: unknown, path: string = '', issues: VortexValidationIssue[] = []): VortexValidationIssue[] {
+  if (!isObject(value)) {
+    issues.push({ path: path || '(root)', message: `expected an InvitationResult object, received ${describe(value)}`, received: value });
+    return issues;
+  }
+  const check = createChecker(issues, path, value);
+  check.string('id');
+  check.string('accountId');
+  check.number('clickThroughs');
+  check.nullableObject('configurationAttributes');
+  check.nullableObject('attributes');
+  check.date('createdAt');
+  check.boolean('deactivated');
+  check.number('deliveryCount');
+  check.array('deliveryTypes', (item, itemPath) => {
+    if (DELIVERY_TYPES.indexOf(item as InvitationResult['deliveryTypes'][number]) === -1) {
+      issues.push({ path: itemPath, message: `expected one of ${DELIVERY_TYPES.join(', ')}, received ${describe(item)}`, received: item });
+    }
+  });
+  check.string('foreignCreatorId');
+  check.oneOf('invitationType', INVITATION_TYPES);
+  check.date('modifiedAt', true);
+  check.oneOf('status', INVITATION_STATUSES);
+  check.array('target', (item, itemPath) => validateInvitationTarget(item, itemPath, issues));
+  check.number('views');
+  check.string('widgetConfigurationId');
+  check.string('projectId');
+  check.array('groups', (item, itemPath) => validateInvitationGroup(item, itemPath, issues));
+  check.array('accepts');
+  return issues;
+}
+
+function toDate(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date;
+}
+
+// Defaults missing collections and null attributes, keeping the InvitationResult shape (timestamps stay strings)
+function withInvitationDefaults(invitation: InvitationResult): InvitationResult {
+  const raw = invitation as unknown as UnknownRecord;
+  return {
+    ...invitation,
+    attributes: invitation.attributes ?? {},
+    configurationAttributes: invitation.configurationAttributes ?? {},
+    deliveryTypes: Array.isArray(raw.deliveryTypes) ? invitation.deliveryTypes : [],
+    target: Array.isArray(raw.target) ? invitation.target : [],
+    accepts: Array.isArray(raw.accepts) ? invitation.accepts : [],
+    groups: Array.isArray(raw.groups) ? invitation.groups : [],
+  };
+}
+
+/**
+ * Fills defaults for nullable or missing collections and parses timestamps into Date objects
+ */
+export function normalizeInvitationResult(invitation: InvitationResult): NormalizedInvitationResult {
+  const filled = withInvitationDefaults(invitation);
+  return {
+    ...filled,
+    attributes: filled.attributes ?? {},
+    configurationAttributes: filled.configurationAttributes ?? {},
+    groups: filled.groups.map(group => ({
+      ...group,
+      createdAt: toDate(group.createdAt) as Date,
+    })),
+    createdAt: toDate(invitation.createdAt) as Date,
+    modifiedAt: (invitation.modifiedAt === null || invitation.modifiedAt === undefined
+      ? null
+      : toDate(invitation.modifiedAt)) as Date | null,
+  };
+}
+
+/**
+ * Normalizes every invitation of a list, keeping its shape (array or page)
+ * `validation.fillDefaults` only fills defaults, so the provider's methods and hooks still return InvitationResult.
+ */
+export function normalizeInvitations(invitations: InvitationResult[]): NormalizedInvitationResult[];
+export function normalizeInvitations(page: InvitationPage): NormalizedInvitationPage;
+export function normalizeInvitations(
+  data: InvitationResult[] | InvitationPage
+): NormalizedInvitationResult[] | NormalizedInvitationPage {
+  return Array.isArray(data)
+    ? data.map(normalizeInvitationResult)
+    : { ...data, invitations: data.invitations.map(normalizeInvitationResult) };
+}
+
+/**
+ * Validates invitation data from a response according to `config.validation`, then fills defaults if enabled
+ * Warnings are only printed in development; strict mode throws a VortexValidationError.
+ */
+export function checkInvitationResponse<T>(
+  data: T,
+  shape: 'invitation' | 'list',
+  config: VortexConfig,
+  request: { endpoint: string; method: string }
+): T {
+  const validation = config.validation;
+  const mode = validation ? validation.mode ?? 'warn' : 'off';
+  if (mode === 'off' && !validation?.fillDefaults) return data;
+
+  // A list is either a plain array or a page holding one
+  const page = shape === 'list' && !Array.isArray(data) && isObject(data) ? data : null;
+  const list = page ? page.invitations : data;
+
+  if (mode === 'strict' || (mode === 'warn' && process.env.NODE_ENV === 'development')) {
+    const issues: VortexValidationIssue[] = [];
+    if (shape === 'invitation') {
+      validateInvitationResult(data, '', issues);
+    } else if (Array.isArray(list)) {
+      list.forEach((item, index) => validateInvitationResult(item, `invitations[${index}]`, issues));
+    } else {
+      issues.push({ path: 'invitations', message: `expected an array, received ${describe(list)}`, received: list });
+    }
+
+    if (issues.length > 0) {
+      const summary = `Invalid ${shape === 'invitation' ? 'InvitationResult' : 'InvitationResult list'} from ${request.method} ${request.endpoint}`;
+      if (mode === 'strict') {
+        throw new VortexValidationError(summary, issues, { endpoint: request.endpoint, method: request.method, body: data });
+      }
+      console.warn(`[Vortex] ${summary}:\n${issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+    }
+  }
+
+  if (!validation?.fillDefaults) return data;
+  const fill = (item: unknown) => (isObject(item) ? withInvitationDefaults(item as unknown as InvitationResult) : item);
+  if (shape === 'invitation') return fill(data) as T;
+  const filled = Array.isArray(list) ? list.map(fill) : [];
+  return (page ? { ...page, invitations: filled } : filled) as T;
+}